@@ -0,0 +1,161 @@
+import { DynamoDBServiceException, ResourceNotFoundException } from "@aws-sdk/client-dynamodb";
+import {
+  ConditionFailedError,
+  MemoryDocument,
+  NotFoundError,
+  Repository,
+  TableDefinition,
+  TransactionCancelledError,
+  VersionConflictError,
+  transaction,
+} from "../lib";
+import z from "zod";
+
+const definition = new TableDefinition("memory", {
+  key: { partition: "pk", sort: "sk" },
+  indexes: {
+    ByUser: { partition: "userId", sort: "sk" },
+  },
+});
+
+describe("using an in-memory DynamoDB in tests", () => {
+  const schema = z.object({
+    pk: z.string(),
+    sk: z.string(),
+    userId: z.string(),
+    content: z.string(),
+    likes: z.number(),
+    tags: z.array(z.string()).optional(),
+    version: z.number().optional(),
+  });
+
+  const dynamodb = new MemoryDocument([definition]);
+  const repository = new Repository(dynamodb, definition.tableName, schema, { definition, cursorSecret: "secret" });
+
+  beforeEach(async () => {
+    dynamodb.deleteTable(definition.tableName);
+    dynamodb.createTable(definition);
+
+    await repository.batchPut(
+      [
+        ["post1", "post", "user1", "my cool post", 1],
+        ["post1", "comment#1", "user2", "blah", 2],
+        ["post1", "comment#2", "user3", "hello", 5],
+        ["post2", "post", "user2", "i also post stuff", 10],
+        ["post2", "comment#1", "user1", ":)", 7],
+        ["post2", "comment#2", "user3", ":D", 3],
+        ["post2", "comment#3", "user1", ":D", 4],
+      ].map(([pk, sk, userId, content, likes]) => ({
+        pk: pk as string,
+        sk: sk as string,
+        userId: userId as string,
+        content: content as string,
+        likes: likes as number,
+      })),
+    );
+  });
+
+  it("reads and writes items", async () => {
+    await repository.put({ pk: "post3", sk: "post", userId: "user3", content: "new", likes: 0 });
+
+    expect(await repository.get({ pk: "post3", sk: "post" })).toEqual({
+      pk: "post3",
+      sk: "post",
+      userId: "user3",
+      content: "new",
+      likes: 0,
+    });
+    await expect(() => repository.get({ pk: "post4", sk: "post" })).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it("queries by key conditions, on the table and its indexes", async () => {
+    const comments = await toArray(
+      repository.query({ pk: "post2", sk: ["begins_with", "comment"] }, { order: "desc" }),
+    );
+    const byUser = await toArray(
+      repository.query({ userId: "user1" }, { index: "ByUser", filter: { likes: [">", 5] } }),
+    );
+
+    expect(comments.map((item) => item.sk)).toEqual(["comment#3", "comment#2", "comment#1"]);
+    expect(byUser.map((item) => item.content)).toEqual([":)"]);
+    expect(await repository.count({ pk: "post1", sk: ["between", "comment#1", "comment#2"] })).toEqual(2);
+  });
+
+  it("pages through results", async () => {
+    const first = await repository.queryPage({ pk: "post2" }, { limit: 3 });
+    const second = await repository.queryPage({ pk: "post2" }, { limit: 3, cursor: first.cursor });
+
+    expect(first.items.map((item) => item.sk)).toEqual(["comment#1", "comment#2", "comment#3"]);
+    expect(second.items.map((item) => item.sk)).toEqual(["post"]);
+    expect(second.cursor).toBeUndefined();
+  });
+
+  it("scans in parallel segments", async () => {
+    const items = await toArray(repository.parallelScan({ segments: 3, select: ["pk", "sk"] }));
+
+    expect(items).toHaveLength(7);
+    expect(items.every((item) => Object.keys(item).length === 2)).toBe(true);
+  });
+
+  it("updates items in place", async () => {
+    const updated = await repository.update(
+      { pk: "post1", sk: "post" },
+      { add: { likes: 2 }, append: { tags: ["news"] }, set: { content: "edited" } },
+    );
+
+    expect(updated).toEqual(expect.objectContaining({ likes: 3, tags: ["news"], content: "edited" }));
+    await expect(() =>
+      repository.update({ pk: "post1", sk: "post" }, { set: { likes: 0 } }, { condition: { likes: [">", 10] } }),
+    ).rejects.toBeInstanceOf(ConditionFailedError);
+  });
+
+  it("fails conditional writes like DynamoDB", async () => {
+    const versioned = new Repository(dynamodb, definition.tableName, schema, { definition, version: "version" });
+    const post = await versioned.create({ pk: "post9", sk: "post", userId: "user9", content: "v1", likes: 0 });
+
+    await expect(() => versioned.create(post)).rejects.toBeInstanceOf(ConditionFailedError);
+    await versioned.put({ ...post, content: "v2" });
+    await expect(() => versioned.put({ ...post, content: "stale" })).rejects.toBeInstanceOf(VersionConflictError);
+  });
+
+  it("commits transactions all or nothing", async () => {
+    const error = await transaction()
+      .update(repository, { pk: "post1", sk: "post" }, { add: { likes: 1 } })
+      .create(repository, { pk: "post2", sk: "post", userId: "user2", content: "dupe", likes: 0 })
+      .commit()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransactionCancelledError);
+    expect(error.reasons).toEqual([expect.objectContaining({ index: 1, code: "ConditionalCheckFailed" })]);
+    expect((await repository.get({ pk: "post1", sk: "post" })).likes).toEqual(1);
+  });
+
+  it("deletes the items matched by a query", async () => {
+    expect(await repository.deleteMany({ pk: "post2" })).toEqual(4);
+    expect(dynamodb.items(definition.tableName)).toHaveLength(3);
+  });
+
+  it("rejects invalid requests with the same errors", async () => {
+    await expect(() => repository.get({ pk: "post1", sk: "post" }, { tableName: "missing" })).rejects.toBeInstanceOf(
+      ResourceNotFoundException,
+    );
+    await expect(() =>
+      dynamodb.query({
+        TableName: definition.tableName,
+        KeyConditionExpression: "sk = :sk",
+        ExpressionAttributeValues: { ":sk": "post" },
+      }),
+    ).rejects.toThrow(DynamoDBServiceException);
+    await expect(() =>
+      dynamodb.put({ TableName: definition.tableName, Item: { pk: "post1", sk: 1 } }),
+    ).rejects.toMatchObject({ name: "ValidationException" });
+  });
+});
+
+const toArray = async <T>(iterator: AsyncGenerator<T>): Promise<T[]> => {
+  const items = [];
+  for await (const i of iterator) {
+    items.push(i);
+  }
+  return items;
+};
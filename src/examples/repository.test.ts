@@ -1,9 +1,25 @@
 import { BatchWriteCommandInput, DynamoDBDocument, paginateQuery } from "@aws-sdk/lib-dynamodb";
-import { DynamoDB, DynamoDBServiceException } from "@aws-sdk/client-dynamodb";
+import { DynamoDB, DynamoDBServiceException, TransactionCanceledException } from "@aws-sdk/client-dynamodb";
 import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
-import { Repository } from "../lib";
+import {
+  ConditionFailedError,
+  InvalidCursorError,
+  MigrationError,
+  NotFoundError,
+  OperationContext,
+  Repository,
+  RepositoryParseError,
+  Table,
+  TableDefinition,
+  TransactionCancelledError,
+  VersionConflictError,
+  transaction,
+  transactGet,
+  useHooks,
+} from "../lib";
 import z, { ZodError } from "zod";
 import { v4 as uuid } from "uuid";
+import { createHash, createHmac } from "node:crypto";
 
 const config = {
   endpoint: "http://localhost:4567",
@@ -13,6 +29,13 @@ const config = {
 
 const tableName = "repository";
 
+const definition = new TableDefinition(tableName, {
+  key: { partition: "pk", sort: "sk" },
+  indexes: {
+    ByUser: { partition: "userId", sort: "sk" },
+  },
+});
+
 describe("using a repository pattern with DynamoDB", () => {
   const dynamodb = new DynamoDB(config);
   const document = DynamoDBDocument.from(dynamodb);
@@ -27,52 +50,7 @@ describe("using a repository pattern with DynamoDB", () => {
   const repository = new Repository(document, tableName, schema);
 
   beforeAll(async () => {
-    await dynamodb.createTable({
-      TableName: tableName,
-      AttributeDefinitions: [
-        {
-          AttributeName: "pk",
-          AttributeType: "S",
-        },
-        {
-          AttributeName: "sk",
-          AttributeType: "S",
-        },
-        {
-          AttributeName: "userId",
-          AttributeType: "S",
-        },
-      ],
-      KeySchema: [
-        {
-          AttributeName: "pk",
-          KeyType: "HASH",
-        },
-        {
-          AttributeName: "sk",
-          KeyType: "RANGE",
-        },
-      ],
-      GlobalSecondaryIndexes: [
-        {
-          IndexName: "ByUser",
-          KeySchema: [
-            {
-              AttributeName: "userId",
-              KeyType: "HASH",
-            },
-            {
-              AttributeName: "sk",
-              KeyType: "RANGE",
-            },
-          ],
-          Projection: {
-            ProjectionType: "ALL",
-          },
-        },
-      ],
-      BillingMode: "PAY_PER_REQUEST",
-    });
+    await dynamodb.createTable(definition.toCreateTableInput());
 
     await document.batchWrite(batchOfItems);
   });
@@ -173,6 +151,979 @@ describe("using a repository pattern with DynamoDB", () => {
     expect(items).toHaveLength(4);
   });
 
+  describe("filtering query and scan results", () => {
+    it("filters on attributes outside of the key", async () => {
+      const items = await toArray(
+        repository.query(
+          { pk: "post2", sk: ["begins_with", "comment"] },
+          { filter: { likes: [">=", 3], content: ["<>", ":("] } },
+        ),
+      );
+
+      expect(items.map((item) => item.sk).sort()).toEqual(["comment#1", "comment#2", "comment#3"]);
+    });
+
+    it("doesn't confuse values for the same attribute", async () => {
+      const items = await toArray(
+        repository.query(
+          { userId: "user1", sk: ["begins_with", "comment"] },
+          { index: "ByUser", filter: ["or", { likes: ["in", [1, 4]] }, { likes: [">", 5] }] },
+        ),
+      );
+
+      expect(items.map((item) => item.likes).sort()).toEqual([1, 4, 7]);
+    });
+
+    it("supports nested groups and functions", async () => {
+      const items = await toArray(
+        repository.scan({
+          filter: [
+            "and",
+            { pk: ["begins_with", "post"], userId: ["attribute_exists"] },
+            ["or", { content: ["contains", "post"] }, ["not", { likes: ["<", 7] }]],
+            { content: ["size", ">", 2] },
+          ],
+        }),
+      );
+
+      expect(items).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ pk: "post1", sk: "post" }),
+          expect.objectContaining({ pk: "post2", sk: "post" }),
+        ]),
+      );
+      expect(items.every((item) => item.content.length > 2)).toBe(true);
+      expect(items.every((item) => item.content.includes("post") || item.likes >= 7)).toBe(true);
+    });
+  });
+
+  describe("ordering and counting query results", () => {
+    it("returns the latest items first", async () => {
+      const items = await toArray(
+        repository.query({ pk: "post2", sk: ["begins_with", "comment"] }, { order: "desc", limit: 2 }),
+      );
+
+      expect(items.map((item) => item.sk)).toEqual(["comment#4", "comment#3"]);
+    });
+
+    it("gets the first match or throws", async () => {
+      const latest = await repository.first({ pk: "post2", sk: ["begins_with", "comment"] }, { order: "desc" });
+
+      expect(latest.sk).toEqual("comment#4");
+      await expect(() => repository.first({ pk: "post2", sk: ["begins_with", "nothing"] })).rejects.toBeInstanceOf(
+        NotFoundError,
+      );
+    });
+
+    it("gets the first match past a filter in a single request", async () => {
+      const query = jest.spyOn(document, "query");
+
+      const match = await repository.first({ pk: "post2", sk: ["begins_with", "comment"] }, { filter: { likes: 1 } });
+
+      expect(match.sk).toEqual("comment#4");
+      expect(query).toHaveBeenCalledTimes(1);
+      query.mockRestore();
+    });
+
+    it("counts items without fetching them", async () => {
+      expect(await repository.count({ pk: "post2", sk: ["begins_with", "comment"] })).toEqual(4);
+      expect(
+        await repository.count({ pk: "post2", sk: ["begins_with", "comment"] }, { filter: { likes: [">=", 3] } }),
+      ).toEqual(3);
+    });
+  });
+
+  describe("passing options per request", () => {
+    it("reads its own writes with a consistent read", async () => {
+      const get = jest.spyOn(document, "get");
+
+      await repository.put({ pk: "post7", sk: "post", userId: "user7", content: "fresh", likes: 0 });
+      const post = await repository.get({ pk: "post7", sk: "post" }, { consistentRead: true });
+
+      expect(post.content).toEqual("fresh");
+      expect(get).toHaveBeenCalledWith(expect.objectContaining({ ConsistentRead: true }), expect.anything());
+      get.mockRestore();
+    });
+
+    it("rejects consistent reads on a global secondary index", async () => {
+      expect(() => repository.query({ userId: "user1" }, { index: "ByUser", consistentRead: true })).toThrow(
+        "Consistent reads aren't supported on global secondary index ByUser",
+      );
+    });
+
+    it("reports the capacity consumed by each request", async () => {
+      const onConsumedCapacity = jest.fn();
+
+      await repository.get({ pk: "post1", sk: "post" }, { returnConsumedCapacity: "TOTAL", onConsumedCapacity });
+      await toArray(repository.query({ pk: "post2" }, { returnConsumedCapacity: "TOTAL", onConsumedCapacity }));
+
+      expect(onConsumedCapacity).toHaveBeenCalledTimes(2);
+      expect(onConsumedCapacity).toHaveBeenCalledWith(expect.objectContaining({ TableName: tableName }));
+    });
+
+    it("stops iterating once the signal is aborted", async () => {
+      const controller = new AbortController();
+      const items: unknown[] = [];
+
+      await expect(async () => {
+        for await (const item of repository.query({ pk: "post2" }, { limit: 5, signal: controller.signal })) {
+          items.push(item);
+          controller.abort();
+        }
+      }).rejects.toThrow();
+      expect(items).toHaveLength(1);
+    });
+
+    it("sends the request to another table", async () => {
+      await expect(() => repository.get({ pk: "post1", sk: "post" }, { tableName: "missing" })).rejects.toThrow(
+        DynamoDBServiceException,
+      );
+    });
+  });
+
+  describe("declaring the table's key and indexes", () => {
+    const posts = new Repository(document, tableName, schema, { definition });
+
+    it("matches the table it created", async () => {
+      const { Table } = await dynamodb.describeTable({ TableName: tableName });
+
+      expect(definition.diff(Table!)).toEqual([]);
+    });
+
+    it("reports how the table has drifted from the definition", async () => {
+      const { Table } = await dynamodb.describeTable({ TableName: tableName });
+      const changed = new TableDefinition(tableName, {
+        key: { partition: "pk", sort: "sk" },
+        indexes: {
+          ByUser: { partition: "userId", sort: "createdAt", projection: "KEYS_ONLY" },
+          ByLikes: { partition: "pk", sort: "likes", local: true },
+        },
+        attributes: { likes: "N" },
+      });
+
+      expect(changed.diff(Table!).map(({ path }) => path)).toEqual([
+        "attribute createdAt",
+        "attribute likes",
+        "index ByUser",
+        "index ByLikes",
+      ]);
+    });
+
+    it("checks the keys of a query against the index", async () => {
+      const items = await toArray(
+        posts.query({ userId: "user1", sk: ["begins_with", "comment"] }, { index: "ByUser" }),
+      );
+      expect(items).toHaveLength(3);
+
+      // @ts-expect-error ByUser is queried by userId
+      expect(() => posts.query({ pk: "post1" }, { index: "ByUser" })).toThrow(
+        "don't match index ByUser of repository, which is queried by userId and sk",
+      );
+      // @ts-expect-error the partition key only takes an equality
+      expect(() => posts.query({ pk: ["begins_with", "post"] })).toThrow("which is queried by pk and sk");
+      // @ts-expect-error the table has no such index
+      expect(() => posts.query({ userId: "user1" }, { index: "ByContent" })).toThrow(
+        "Index ByContent isn't declared for repository",
+      );
+    });
+  });
+
+  describe("typing keys against the schema", () => {
+    const VersionSchema = z.object({ documentId: z.string(), version: z.number(), content: z.string() });
+    const versions = new Repository(document, tableName, VersionSchema, {
+      key: { partition: "documentId", sort: "version" },
+    });
+
+    it("only takes the key attributes with the types from the schema", async () => {
+      expect(await repository.get({ pk: "post1", sk: "post" })).toEqual(expect.objectContaining({ userId: "user1" }));
+
+      // @ts-expect-error sk is a string
+      await expect(() => repository.get({ pk: "post1", sk: 1 })).rejects.toThrow(DynamoDBServiceException);
+      // @ts-expect-error userId isn't part of the key
+      await expect(repository.get({ pk: "post1", sk: "post", userId: "user1" })).resolves.toBeDefined();
+      // @ts-expect-error there's no userID field
+      repository.query({ userID: "user1" }, { index: "ByUser" });
+    });
+
+    it("only allows begins_with on string sort keys", () => {
+      versions.query({ documentId: "doc1", version: ["between", 1, 3] });
+      versions.query({ documentId: "doc1", version: [">", 1] });
+      // @ts-expect-error version is a number
+      versions.query({ documentId: "doc1", version: ["begins_with", "1"] });
+      // @ts-expect-error the partition key only takes an equality
+      versions.query({ documentId: [">", "doc1"] });
+    });
+  });
+
+  describe("paging through results", () => {
+    const paged = new Repository(document, tableName, schema, { cursorSecret: "secret" });
+
+    it("returns a page of items with a cursor for the next page", async () => {
+      const first = await paged.queryPage({ pk: "post2", sk: ["begins_with", "comment"] }, { limit: 3 });
+
+      expect(first.items.map((item) => item.sk)).toEqual(["comment#1", "comment#2", "comment#3"]);
+      expect(first.cursor).toEqual(expect.any(String));
+
+      const second = await paged.queryPage(
+        { pk: "post2", sk: ["begins_with", "comment"] },
+        { limit: 3, cursor: first.cursor },
+      );
+
+      expect(second.items.map((item) => item.sk)).toEqual(["comment#4"]);
+      expect(second.cursor).toBeUndefined();
+    });
+
+    it("fills the page even when a filter removes items", async () => {
+      const page = await paged.queryPage(
+        { pk: "post2", sk: ["begins_with", "comment"] },
+        { limit: 2, filter: { userId: "user1" } },
+      );
+
+      expect(page.items.map((item) => item.sk)).toEqual(["comment#1", "comment#3"]);
+    });
+
+    it("rejects cursors that have been modified or belong to another index", async () => {
+      const { cursor } = await paged.queryPage({ pk: "post2" }, { limit: 1 });
+      const [payload, signature] = cursor!.split(".");
+      const forged = Buffer.from(
+        JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), key: { pk: "post1", sk: "a" } }),
+      ).toString("base64url");
+
+      await expect(() =>
+        paged.queryPage({ pk: "post2" }, { limit: 1, cursor: `${forged}.${signature}` }),
+      ).rejects.toBeInstanceOf(InvalidCursorError);
+      await expect(() =>
+        paged.queryPage({ userId: "user1" }, { limit: 1, cursor, index: "ByUser" }),
+      ).rejects.toBeInstanceOf(InvalidCursorError);
+
+      const hashed = createHash("sha256").update(forged).digest("base64url");
+      await expect(() =>
+        paged.queryPage({ pk: "post2" }, { limit: 1, cursor: `${forged}.${hashed}` }),
+      ).rejects.toBeInstanceOf(InvalidCursorError);
+    });
+
+    it("rejects index cursors without the index's key attributes", async () => {
+      const signed = new Repository(document, tableName, schema, { definition, cursorSecret: "secret" });
+      const payload = Buffer.from(JSON.stringify({ index: "ByUser", key: { pk: "post1", sk: "post" } })).toString(
+        "base64url",
+      );
+      const signature = createHmac("sha256", "secret").update(payload).digest("base64url");
+
+      await expect(() =>
+        signed.queryPage({ userId: "user1" }, { limit: 1, index: "ByUser", cursor: `${payload}.${signature}` }),
+      ).rejects.toThrow("Cursor does not contain the keys pk, sk, userId");
+    });
+
+    it("requires a secret to sign cursors with", async () => {
+      await expect(() => repository.queryPage({ pk: "post2" }, { limit: 1 })).rejects.toThrow(
+        "repository needs the cursorSecret option",
+      );
+    });
+
+    it("limits the number of items yielded by the iterators", async () => {
+      expect(await toArray(repository.scan({ limit: 2 }))).toHaveLength(2);
+      expect(await toArray(repository.query({ pk: "post2" }, { limit: 3 }))).toHaveLength(3);
+    });
+  });
+
+  describe("getting many items at once", () => {
+    it("returns items in the order they were asked for", async () => {
+      const items = await repository.batchGet([
+        { pk: "post2", sk: "comment#2" },
+        { pk: "post1", sk: "post" },
+        { pk: "nope", sk: "post" },
+        { pk: "post2", sk: "comment#2" },
+      ]);
+
+      expect(items).toEqual([
+        expect.objectContaining({ pk: "post2", sk: "comment#2" }),
+        expect.objectContaining({ pk: "post1", sk: "post" }),
+        undefined,
+        expect.objectContaining({ pk: "post2", sk: "comment#2" }),
+      ]);
+    });
+
+    it("splits large requests into chunks", async () => {
+      const keys = Array.from({ length: 250 }, (_, i) => ({ pk: `missing${i}`, sk: "post" }));
+      const items = await repository.batchGet([...keys, { pk: "post2", sk: "post" }]);
+
+      expect(items).toHaveLength(251);
+      expect(items.filter(Boolean)).toEqual([expect.objectContaining({ pk: "post2", sk: "post" })]);
+    });
+
+    it("can insist that every item exists", async () => {
+      await expect(() =>
+        repository.batchGet(
+          [
+            { pk: "post1", sk: "post" },
+            { pk: "nope", sk: "post" },
+          ],
+          { throwIfNotFound: true },
+        ),
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe("writing many items at once", () => {
+    const comments = Array.from({ length: 60 }, (_, i) => ({
+      pk: "post8",
+      sk: `comment#${i}`,
+      userId: "user8",
+      content: `comment ${i}`,
+      likes: i,
+    }));
+
+    it("validates every item before writing any of them", async () => {
+      const invalid = [...comments.slice(0, 10), { ...comments[10], likes: "lots" }, ...comments.slice(11)];
+
+      const error = await repository.batchPut(invalid as any).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ZodError);
+      expect(error.issues).toEqual([expect.objectContaining({ path: [10, "likes"] })]);
+      expect(await toArray(repository.query({ pk: "post8" }))).toHaveLength(0);
+    });
+
+    it("writes and deletes in chunks", async () => {
+      const written = await repository.batchPut(comments, { concurrency: 2 });
+
+      expect(written.count).toEqual(60);
+      expect(await toArray(repository.query({ pk: "post8" }))).toHaveLength(60);
+
+      const deleted = await repository.batchDelete(comments.map(({ pk, sk }) => ({ pk, sk })));
+
+      expect(deleted.count).toEqual(60);
+      expect(await toArray(repository.query({ pk: "post8" }))).toHaveLength(0);
+    });
+  });
+
+  describe("updating items in place", () => {
+    const TaggedSchema = schema.extend({
+      tags: z.array(z.string()).optional(),
+      shares: z.number().optional(),
+    });
+    const tagged = new Repository(document, tableName, TaggedSchema);
+
+    beforeEach(async () => {
+      await tagged.put({
+        pk: "post6",
+        sk: "post",
+        userId: "user6",
+        content: "updatable",
+        likes: 1,
+        tags: ["first"],
+      });
+    });
+
+    it("increments and sets fields without reading the item first", async () => {
+      const item = await tagged.update(
+        { pk: "post6", sk: "post" },
+        {
+          set: { content: "updated" },
+          add: { likes: 2 },
+        },
+      );
+
+      expect(item).toEqual(expect.objectContaining({ content: "updated", likes: 3 }));
+    });
+
+    it("appends to lists, defaults missing fields and removes optional fields", async () => {
+      const item = await tagged.update(
+        { pk: "post6", sk: "post" },
+        {
+          append: { tags: ["second"] },
+          setIfNotExists: { shares: 0, likes: 100 },
+        },
+      );
+
+      expect(item).toEqual(expect.objectContaining({ tags: ["first", "second"], shares: 0, likes: 1 }));
+
+      const removed = await tagged.update({ pk: "post6", sk: "post" }, { remove: ["tags"] });
+
+      expect(removed.tags).toBeUndefined();
+    });
+
+    it("validates the changed fields against the schema", async () => {
+      await expect(() =>
+        tagged.update({ pk: "post6", sk: "post" }, { set: { likes: "lots" } } as any),
+      ).rejects.toBeInstanceOf(ZodError);
+      await expect(() =>
+        tagged.update({ pk: "post6", sk: "post" }, { set: { notAField: true } } as any),
+      ).rejects.toBeInstanceOf(ZodError);
+    });
+
+    it("does not create items that don't exist", async () => {
+      await expect(() => tagged.update({ pk: "missing", sk: "post" }, { add: { likes: 1 } })).rejects.toBeInstanceOf(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe("optimistic locking with a version attribute", () => {
+    const VersionedSchema = schema.extend({
+      version: z.number().optional(),
+    });
+    const versioned = new Repository(document, tableName, VersionedSchema, { version: "version" });
+    const post10 = { pk: "post10", sk: "post", userId: "user10", content: "first draft", likes: 0 };
+
+    it("creates new items at version 1 and increments on every write", async () => {
+      const created = await versioned.put(post10);
+
+      expect(created.version).toEqual(1);
+      await expect(() => versioned.put(post10)).rejects.toBeInstanceOf(VersionConflictError);
+
+      const read = await versioned.get({ pk: "post10", sk: "post" });
+      const saved = await versioned.put({ ...read, content: "second draft" });
+
+      expect(saved.version).toEqual(2);
+
+      const updated = await versioned.update({ pk: "post10", sk: "post" }, { add: { likes: 1 } }, { version: 2 });
+
+      expect(updated).toEqual(expect.objectContaining({ likes: 1, version: 3 }));
+    });
+
+    it("rejects writes from a stale read with both versions", async () => {
+      const stale = await versioned.get({ pk: "post10", sk: "post" });
+      await versioned.put({ ...stale, content: "someone else got here first" });
+
+      const error = await versioned.put({ ...stale, content: "my edit" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error).toEqual(expect.objectContaining({ expected: stale.version, actual: stale.version! + 1 }));
+      await expect(() =>
+        versioned.update({ pk: "post10", sk: "post" }, { set: { content: "my edit" } }, { version: stale.version }),
+      ).rejects.toBeInstanceOf(VersionConflictError);
+    });
+
+    it("versions items written in batches", async () => {
+      const { items } = await versioned.batchPut([{ ...post10, pk: "post12" }]);
+
+      expect(items[0].version).toEqual(1);
+
+      const read = await versioned.get({ pk: "post12", sk: "post" });
+      const saved = await versioned.put({ ...read, content: "second draft" });
+
+      expect(saved.version).toEqual(2);
+    });
+  });
+
+  describe("managing createdAt and updatedAt timestamps", () => {
+    let now = new Date("2024-01-01T00:00:00.000Z");
+    const clock = () => now;
+    const TimestampedSchema = schema.extend({
+      createdAt: z.string().optional(),
+      updatedAt: z.string().optional(),
+    });
+    const timestamped = new Repository(document, tableName, TimestampedSchema, { timestamps: { clock } });
+    const post11 = { pk: "post11", sk: "post", userId: "user11", content: "first draft", likes: 0 };
+
+    it("sets createdAt on the first write and keeps it on later writes", async () => {
+      const created = await timestamped.put(post11);
+
+      expect(created).toEqual(
+        expect.objectContaining({ createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-01T00:00:00.000Z" }),
+      );
+
+      now = new Date("2024-01-02T00:00:00.000Z");
+      const read = await timestamped.get({ pk: "post11", sk: "post" });
+      const saved = await timestamped.put({ ...read, content: "second draft" });
+
+      expect(saved).toEqual(
+        expect.objectContaining({ createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-02T00:00:00.000Z" }),
+      );
+
+      now = new Date("2024-01-03T00:00:00.000Z");
+      const updated = await timestamped.update({ pk: "post11", sk: "post" }, { add: { likes: 1 } });
+
+      expect(updated).toEqual(
+        expect.objectContaining({ createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-03T00:00:00.000Z" }),
+      );
+    });
+
+    it("keeps createdAt when putting a fresh object over an existing item", async () => {
+      now = new Date("2024-01-01T00:00:00.000Z");
+      await timestamped.put({ ...post11, pk: "post17" });
+
+      now = new Date("2024-06-01T00:00:00.000Z");
+      const saved = await timestamped.put({ ...post11, pk: "post17", content: "second draft" });
+
+      expect(saved).toEqual(
+        expect.objectContaining({ createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-06-01T00:00:00.000Z" }),
+      );
+      expect((await timestamped.get({ pk: "post17", sk: "post" })).createdAt).toEqual("2024-01-01T00:00:00.000Z");
+    });
+
+    it("keeps createdAt for items whose keys come from a transform", async () => {
+      const DraftSchema = z
+        .object({
+          draftId: z.string(),
+          content: z.string(),
+          createdAt: z.string().optional(),
+          updatedAt: z.string().optional(),
+        })
+        .transform((item) => ({ ...item, pk: item.draftId, sk: "draft" }));
+      const drafts = new Repository(document, tableName, DraftSchema, { timestamps: { clock } });
+
+      now = new Date("2024-01-01T00:00:00.000Z");
+      await drafts.put({ draftId: "post20", content: "first draft" });
+
+      now = new Date("2024-06-01T00:00:00.000Z");
+      const saved = await drafts.put({ draftId: "post20", content: "second draft" });
+
+      expect(saved).toEqual(
+        expect.objectContaining({ createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-06-01T00:00:00.000Z" }),
+      );
+    });
+
+    it("keeps createdAt when batch putting over existing items", async () => {
+      now = new Date("2024-01-01T00:00:00.000Z");
+      await timestamped.put({ ...post11, pk: "post21" });
+
+      now = new Date("2024-06-01T00:00:00.000Z");
+      const { items } = await timestamped.batchPut([
+        { ...post11, pk: "post21", content: "second draft" },
+        { ...post11, pk: "post22" },
+      ]);
+
+      expect(items.map(({ createdAt }) => createdAt)).toEqual(["2024-01-01T00:00:00.000Z", "2024-06-01T00:00:00.000Z"]);
+      expect((await timestamped.get({ pk: "post21", sk: "post" })).createdAt).toEqual("2024-01-01T00:00:00.000Z");
+    });
+
+    it("uses the configured attribute names and format", async () => {
+      const renamed = new Repository(document, tableName, schema, {
+        timestamps: { createdAt: "created", updatedAt: false, format: "epoch", clock },
+      });
+
+      await renamed.put({ ...post11, pk: "post12" });
+      const { Item } = await document.get({ TableName: tableName, Key: { pk: "post12", sk: "post" } });
+
+      expect(Item).toEqual(expect.objectContaining({ created: now.getTime() }));
+      expect(Item).not.toHaveProperty("updatedAt");
+    });
+  });
+
+  describe("migrating items written with earlier schemas", () => {
+    const ArticleSchema = z.object({
+      pk: z.string(),
+      sk: z.string(),
+      userId: z.string(),
+      title: z.string(),
+      body: z.string(),
+      likes: z.number(),
+    });
+    const migrations = [
+      // v1 -> v2: content was renamed to text
+      (item: Record<string, any>) => ({ ...item, text: item.content }),
+      // v2 -> v3: text was split into a title and body
+      (item: Record<string, any>) => {
+        const [title, ...body] = item.text.split("\n");
+        return { ...item, title, body: body.join("\n") };
+      },
+    ];
+    const articles = new Repository(document, tableName, ArticleSchema, { schemaVersion: { migrations } });
+    const post13 = { pk: "post13", sk: "post", userId: "user13", content: "Title\nBody text", likes: 0 };
+
+    it("upgrades items as they're read", async () => {
+      await document.put({ TableName: tableName, Item: post13 });
+
+      const item = await articles.get({ pk: "post13", sk: "post" });
+
+      expect(item).toEqual({
+        pk: "post13",
+        sk: "post",
+        userId: "user13",
+        title: "Title",
+        body: "Body text",
+        likes: 0,
+        schemaVersion: 3,
+      });
+      expect(await toArray(articles.query({ pk: "post13" }))).toEqual([item]);
+    });
+
+    it("records the current version and can write upgraded items back", async () => {
+      const writing = new Repository(document, tableName, ArticleSchema, {
+        schemaVersion: { migrations, writeBack: true },
+      });
+      await document.put({ TableName: tableName, Item: { ...post13, pk: "post14" } });
+
+      await writing.get({ pk: "post14", sk: "post" });
+      const { Item } = await document.get({ TableName: tableName, Key: { pk: "post14", sk: "post" } });
+
+      expect(Item).toEqual(expect.objectContaining({ title: "Title", body: "Body text", schemaVersion: 3 }));
+      expect(await articles.put({ ...post13, title: "New", body: "" })).toEqual(
+        expect.objectContaining({ schemaVersion: 3 }),
+      );
+    });
+
+    it("writes back without changing the item's version or timestamps", async () => {
+      const VersionedArticleSchema = ArticleSchema.extend({ version: z.number().optional() });
+      const writing = new Repository(document, tableName, VersionedArticleSchema, {
+        schemaVersion: { migrations, writeBack: true },
+        version: "version",
+        timestamps: true,
+      });
+      const timestamps = { createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-01-01T00:00:00.000Z" };
+      await document.put({ TableName: tableName, Item: { ...post13, pk: "post18", version: 3, ...timestamps } });
+
+      const read = await writing.get({ pk: "post18", sk: "post" });
+      const { Item } = await document.get({ TableName: tableName, Key: { pk: "post18", sk: "post" } });
+
+      expect(read).toEqual(expect.objectContaining({ version: 3, ...timestamps }));
+      expect(Item).toEqual(expect.objectContaining({ title: "Title", schemaVersion: 3, version: 3, ...timestamps }));
+      expect(await writing.put({ ...read, title: "New" })).toEqual(expect.objectContaining({ version: 4 }));
+    });
+
+    it("only writes back items that migrate into valid items", async () => {
+      const writing = new Repository(document, tableName, ArticleSchema, {
+        schemaVersion: { migrations: [migrations[0], (item) => ({ ...item, title: item.text })], writeBack: true },
+        onReadError: "skip",
+      });
+      await document.put({ TableName: tableName, Item: { ...post13, pk: "post19" } });
+
+      await expect(() => writing.get({ pk: "post19", sk: "post" })).rejects.toBeInstanceOf(RepositoryParseError);
+      expect(await toArray(writing.query({ pk: "post19" }))).toEqual([]);
+
+      const { Item } = await document.get({ TableName: tableName, Key: { pk: "post19", sk: "post" } });
+      expect(Item).toEqual({ ...post13, pk: "post19" });
+    });
+
+    it("reports the key and version of items that fail to migrate", async () => {
+      await document.put({ TableName: tableName, Item: { ...post13, pk: "post15", schemaVersion: 2 } });
+
+      const error = await articles.get({ pk: "post15", sk: "post" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(MigrationError);
+      expect(error).toEqual(expect.objectContaining({ key: { pk: "post15", sk: "post" }, version: 2 }));
+    });
+  });
+
+  describe("handling invalid items while reading", () => {
+    beforeAll(async () => {
+      await document.put({
+        TableName: tableName,
+        Item: { pk: "post16", sk: "comment#1", userId: "user16", content: "fine", likes: 1 },
+      });
+      await document.put({
+        TableName: tableName,
+        Item: { pk: "post16", sk: "comment#2", userId: "user16", content: "corrupt", likes: "lots" },
+      });
+    });
+
+    afterAll(async () => {
+      await repository.batchDelete([
+        { pk: "post16", sk: "comment#1" },
+        { pk: "post16", sk: "comment#2" },
+      ]);
+    });
+
+    it("reports which item failed to parse", async () => {
+      const error = await toArray(repository.query({ pk: "post16" })).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RepositoryParseError);
+      expect(error).toEqual(
+        expect.objectContaining({
+          tableName,
+          key: { pk: "post16", sk: "comment#2" },
+          issues: [expect.objectContaining({ path: ["likes"] })],
+        }),
+      );
+    });
+
+    it("can skip invalid items", async () => {
+      const skipping = new Repository(document, tableName, schema, { onReadError: "skip" });
+
+      const items = await toArray(skipping.query({ pk: "post16" }));
+
+      expect(items.map((item) => item.content)).toEqual(["fine"]);
+    });
+
+    it("can collect invalid items with their errors", async () => {
+      const collecting = new Repository(document, tableName, schema, { onReadError: "collect" });
+
+      const iterator = collecting.query({ pk: "post16" });
+      const items = await toArray(iterator);
+
+      expect(items.map((item) => item.content)).toEqual(["fine"]);
+      expect(iterator.invalid).toEqual([
+        { item: expect.objectContaining({ sk: "comment#2" }), error: expect.any(RepositoryParseError) },
+      ]);
+    });
+  });
+
+  describe("scanning in parallel segments", () => {
+    const posts = new Repository(document, tableName, schema, { onReadError: "skip" });
+    const toKeys = (items: { pk: string; sk: string }[]) => items.map(({ pk, sk }) => `${pk}/${sk}`).sort();
+
+    it("finds the same items as a sequential scan", async () => {
+      const sequential = await toArray(posts.scan());
+      const parallel = await toArray(posts.parallelScan({ segments: 4, concurrency: 2 }));
+
+      expect(toKeys(parallel)).toEqual(toKeys(sequential));
+    });
+
+    it("combines with filters and projections", async () => {
+      const items = await toArray(
+        posts.parallelScan({ segments: 3, filter: { userId: "user1" }, select: ["pk", "sk", "userId"] }),
+      );
+
+      expect(items.length).toBeGreaterThan(0);
+      expect(items.every((item) => item.userId === "user1" && Object.keys(item).length === 3)).toBe(true);
+    });
+
+    it("resumes a single segment from where it got to", async () => {
+      const scan = posts.parallelScan({ segments: 2, only: [0] });
+      const segment = await toArray(scan);
+
+      expect(scan.progress).toEqual({ 0: null });
+
+      const resumed = await toArray(
+        posts.parallelScan({ segments: 2, only: [0], resume: { 0: posts.toKey(segment[0]) } }),
+      );
+
+      expect(toKeys(resumed)).toEqual(toKeys(segment.slice(1)));
+    });
+  });
+
+  describe("using reserved words and document paths", () => {
+    const ProfileSchema = z.object({
+      pk: z.string(),
+      sk: z.string(),
+      name: z.string(),
+      status: z.enum(["active", "inactive"]),
+      "gsi1-pk": z.string(),
+      address: z.object({
+        city: z.string(),
+        postcode: z.string().optional(),
+      }),
+      tags: z.array(z.string()),
+    });
+    const profiles = new Repository(document, tableName, ProfileSchema);
+
+    beforeAll(async () => {
+      await profiles.put({
+        pk: "profile1",
+        sk: "profile",
+        name: "tom",
+        status: "active",
+        "gsi1-pk": "profiles",
+        address: { city: "Brisbane" },
+        tags: ["first", "second"],
+      });
+    });
+
+    it("filters and conditions on reserved words and nested attributes", async () => {
+      const items = await toArray(
+        profiles.query(
+          { pk: "profile1" },
+          { filter: { name: "tom", status: "active", "gsi1-pk": "profiles", "address.city": "Brisbane" } },
+        ),
+      );
+
+      expect(items).toHaveLength(1);
+
+      await expect(() =>
+        profiles.delete({ pk: "profile1", sk: "profile" }, { condition: { "tags[0]": "second" } }),
+      ).rejects.toBeInstanceOf(ConditionFailedError);
+    });
+
+    it("updates nested attributes", async () => {
+      const item = await profiles.update(
+        { pk: "profile1", sk: "profile" },
+        {
+          set: { "address.postcode": "4000", status: "inactive" },
+          remove: ["tags[0]"],
+        },
+        { condition: { name: "tom" } },
+      );
+
+      expect(item).toEqual(
+        expect.objectContaining({
+          status: "inactive",
+          address: { city: "Brisbane", postcode: "4000" },
+          tags: ["second"],
+        }),
+      );
+
+      await expect(() =>
+        profiles.update({ pk: "profile1", sk: "profile" }, { set: { "address.postcode": 4000 } }),
+      ).rejects.toBeInstanceOf(ZodError);
+    });
+  });
+
+  describe("deleting items", () => {
+    const post7 = {
+      pk: "post7",
+      sk: "post",
+      userId: "user7",
+      content: "short lived",
+      likes: 0,
+    };
+
+    it("returns the deleted item", async () => {
+      await repository.put(post7);
+
+      const deleted = await repository.delete({ pk: "post7", sk: "post" });
+
+      expect(deleted).toEqual(post7);
+      await expect(() => repository.get({ pk: "post7", sk: "post" })).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it("can insist that the item existed", async () => {
+      await expect(repository.delete({ pk: "post7", sk: "post" })).resolves.toBeUndefined();
+      await expect(() =>
+        repository.delete({ pk: "post7", sk: "post" }, { throwIfNotFound: true }),
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it("deletes a post and all of its comments in one call", async () => {
+      await repository.put(post7);
+      for (const commentId of [1, 2, 3]) {
+        await repository.put({ ...post7, sk: `comment#${commentId}`, content: "bye" });
+      }
+
+      const deleted = await repository.deleteMany({ pk: "post7" });
+
+      expect(deleted).toEqual(4);
+      expect(await toArray(repository.query({ pk: "post7" }))).toHaveLength(0);
+    });
+  });
+
+  describe("running hooks around operations", () => {
+    const post11 = { pk: "post11", sk: "post", userId: "user11", content: "  hooked  ", likes: 0 };
+
+    it("lets hooks see, change and reject operations", async () => {
+      const operations: OperationContext[] = [];
+      const hooked = new Repository(document, tableName, schema, {
+        hooks: [
+          {
+            before: (context) => {
+              operations.push(context);
+              if (context.item?.userId === "banned") {
+                throw new Error("Banned users can't post");
+              }
+              if (context.item) {
+                return { ...context, item: { ...context.item, content: context.item.content.trim() } };
+              }
+            },
+            after: (context, item) => item && { ...item, content: item.content.toUpperCase() },
+          },
+        ],
+      });
+
+      expect(await hooked.put(post11)).toEqual({ ...post11, content: "HOOKED" });
+      expect(await toArray(hooked.query({ pk: "post11" }))).toEqual([{ ...post11, content: "HOOKED" }]);
+      expect(await repository.get({ pk: "post11", sk: "post" })).toEqual({ ...post11, content: "hooked" });
+      expect(operations.map(({ operation, key }) => [operation, key])).toEqual([
+        ["put", undefined],
+        ["query", { pk: "post11" }],
+      ]);
+
+      await expect(() => hooked.put({ ...post11, sk: "comment#1", userId: "banned" })).rejects.toThrow(
+        "Banned users can't post",
+      );
+      await expect(() => repository.get({ pk: "post11", sk: "comment#1" })).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it("runs hooks registered for the client in every repository that uses it", async () => {
+      const calls: string[] = [];
+      const hooked = new Repository(document, tableName, schema, {
+        hooks: [
+          {
+            before: (context) => void calls.push(`repository before ${context.operation}`),
+            after: (context) => void calls.push(`repository after ${context.operation}`),
+          },
+        ],
+      });
+      const remove = useHooks(document, {
+        before: (context) => {
+          calls.push(`client before ${context.operation}`);
+          return context.key?.pk === "latest" ? { ...context, key: { ...context.key, pk: "post1" } } : undefined;
+        },
+        after: (context) => void calls.push(`client after ${context.operation}`),
+      });
+
+      try {
+        expect((await hooked.get({ pk: "latest", sk: "post" })).content).toEqual("my cool post");
+        expect(await repository.count({ pk: "latest" })).toEqual(3);
+      } finally {
+        remove();
+      }
+      await repository.get({ pk: "post1", sk: "post" });
+
+      expect(calls).toEqual([
+        "client before get",
+        "repository before get",
+        "repository after get",
+        "client after get",
+        "client before count",
+        "client after count",
+      ]);
+    });
+
+    it("runs hooks on raw and batch reads too", async () => {
+      const hidden = new Repository(document, tableName, schema, {
+        hooks: [
+          {
+            before: (context) => {
+              if (context.key?.pk === "post2") {
+                throw new Error("post2 is hidden");
+              }
+            },
+          },
+        ],
+      });
+
+      await expect(hidden.getRaw({ pk: "post1", sk: "post" })).resolves.toBeDefined();
+      await expect(() => hidden.getRaw({ pk: "post2", sk: "post" })).rejects.toThrow("post2 is hidden");
+      await expect(() =>
+        hidden.batchGet([
+          { pk: "post1", sk: "post" },
+          { pk: "post2", sk: "post" },
+        ]),
+      ).rejects.toThrow("post2 is hidden");
+    });
+
+    it("runs hooks on batch writes, deleteMany and transactions too", async () => {
+      const calls: string[] = [];
+      const guarded = new Repository(document, tableName, schema, {
+        hooks: [
+          {
+            before: (context) => {
+              calls.push(`before ${context.operation}`);
+              if ((context.item ?? context.key)?.pk === "post2") {
+                throw new Error("post2 is read-only");
+              }
+            },
+            after: (context) => void calls.push(`after ${context.operation}`),
+          },
+        ],
+      });
+      const post23 = { ...post11, pk: "post23" };
+
+      await expect(() => guarded.batchPut([post23, { ...post11, pk: "post2" }])).rejects.toThrow("post2 is read-only");
+      await expect(() => guarded.batchDelete([{ pk: "post2", sk: "post" }])).rejects.toThrow("post2 is read-only");
+      await expect(() => guarded.deleteMany({ pk: "post2" })).rejects.toThrow("post2 is read-only");
+      await expect(() =>
+        transaction().put(guarded, post23).delete(guarded, { pk: "post2", sk: "post" }).commit(),
+      ).rejects.toThrow("post2 is read-only");
+
+      await expect(() => repository.get({ pk: "post23", sk: "post" })).rejects.toBeInstanceOf(NotFoundError);
+      await expect(repository.get({ pk: "post2", sk: "post" })).resolves.toBeDefined();
+
+      await guarded.batchPut([post23]);
+
+      expect(calls).toEqual([
+        "before batchPut",
+        "before batchPut",
+        "before batchDelete",
+        "before deleteMany",
+        "before put",
+        "before delete",
+        "before batchPut",
+        "after batchPut",
+      ]);
+    });
+  });
+
   describe("using classes to capture logic", () => {
     /**
      * Encapsulate the DynamoDB logic in a "write once" way
@@ -337,6 +1288,44 @@ describe("using a repository pattern with DynamoDB", () => {
       });
     });
 
+    it("can leave the storage-only keys out of the items it returns", async () => {
+      const domainPosts = new Repository(document, tableName, PostSchema, { storageAttributes: ["pk", "sk"] });
+      const post = await domainPosts.put({
+        userId: "user3",
+        content: "my content",
+        likes: 4,
+      });
+
+      expect(post).toEqual({ postId: post.postId, userId: "user3", content: "my content", likes: 4 });
+
+      const item = await domainPosts.get({ pk: post.postId, sk: "post" });
+      // @ts-expect-error keys aren't part of the domain type
+      expect(item.pk).toBeUndefined();
+
+      const raw = await domainPosts.getRaw({ pk: post.postId, sk: "post" });
+      expect(raw).toEqual({ ...post, pk: post.postId, sk: "post" });
+    });
+
+    it("fetches only the selected fields", async () => {
+      const { postId } = await posts.put({
+        userId: "user3",
+        content: "a very long post",
+        likes: 4,
+      });
+
+      const item = await posts.get({ pk: postId, sk: "post" }, { select: ["postId", "likes"] });
+
+      expect(item).toEqual({ postId, likes: 4 });
+      // @ts-expect-error content wasn't selected
+      expect(item.content).toBeUndefined();
+
+      const items = await toArray(
+        posts.query({ userId: "user3", sk: "post" }, { index: "ByUser", select: ["postId", "pk"] }),
+      );
+
+      expect(items).toContainEqual({ postId, pk: postId });
+    });
+
     it("handles updating and creating items", async () => {
       // creates item and assigns postId
       const { postId } = await posts.put({
@@ -353,6 +1342,137 @@ describe("using a repository pattern with DynamoDB", () => {
         likes: 4,
       });
     });
+
+    it("can tell creating and replacing items apart", async () => {
+      const { postId } = await posts.create({
+        userId: "user3",
+        content: "my content",
+        likes: 4,
+      });
+
+      await expect(() =>
+        posts.create({
+          postId,
+          userId: "user3",
+          content: "clobbered!",
+          likes: 0,
+        }),
+      ).rejects.toBeInstanceOf(ConditionFailedError);
+
+      await posts.replace({
+        postId,
+        userId: "user3",
+        content: "my content - updated!",
+        likes: 4,
+      });
+
+      await expect(() =>
+        posts.replace({
+          postId: uuid(),
+          userId: "user3",
+          content: "nothing to replace",
+          likes: 0,
+        }),
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it("only writes when a condition holds", async () => {
+      const { postId } = await posts.create({
+        userId: "user3",
+        content: "my content",
+        likes: 4,
+      });
+
+      await expect(() =>
+        posts.put({ postId, userId: "user3", content: "too late", likes: 5 }, { condition: { likes: ["<", 4] } }),
+      ).rejects.toBeInstanceOf(ConditionFailedError);
+      await expect(() =>
+        posts.update({ pk: postId, sk: "post" }, { add: { likes: 1 } }, { condition: { likes: 0 } }),
+      ).rejects.toBeInstanceOf(ConditionFailedError);
+      await expect(() =>
+        posts.delete({ pk: postId, sk: "post" }, { condition: { likes: [">", 10] } }),
+      ).rejects.toBeInstanceOf(ConditionFailedError);
+
+      const updated = await posts.update(
+        { pk: postId, sk: "post" },
+        { add: { likes: 1 } },
+        { condition: { likes: 4 } },
+      );
+
+      expect(updated.likes).toEqual(5);
+    });
+
+    describe("declaring key templates instead of building keys by hand", () => {
+      const TemplatedCommentSchema = z.object({
+        postId: z.string(),
+        commentId: z.string().default(() => uuid()),
+        userId: z.string(),
+        content: z.string(),
+        likes: z.number(),
+      });
+      const templated = new Repository(document, tableName, TemplatedCommentSchema, {
+        templates: { pk: "{postId}", sk: "comment#{commentId}" },
+        indexes: { ByUser: { partition: "userId", sort: "sk" } },
+      });
+
+      it("builds the keys on write and reads by the domain fields", async () => {
+        const { postId } = await posts.put({ userId: "user6", content: "my content", likes: 4 });
+        const comment = await templated.put({ postId, userId: "user6", content: "templated", likes: 0 });
+
+        expect(comment).toEqual(expect.objectContaining({ pk: postId, sk: `comment#${comment.commentId}` }));
+
+        const item = await templated.get({ postId, commentId: comment.commentId });
+
+        expect(item).toEqual({ postId, commentId: comment.commentId, userId: "user6", content: "templated", likes: 0 });
+        // @ts-expect-error the sort key template needs a commentId
+        await expect(() => templated.get({ postId })).rejects.toThrow("Missing fields for key template sk");
+      });
+
+      it("queries with begins_with when only the leading fields are given", async () => {
+        const { postId } = await posts.put({ userId: "user7", content: "my content", likes: 4 });
+        await templated.put({ postId, userId: "user7", content: "first!", likes: 0 });
+        await templated.put({ postId, userId: "user7", content: "second!", likes: 1 });
+
+        const byPost = await toArray(templated.query({ postId }));
+        const byUser = await toArray(templated.query({ userId: "user7" }, { index: "ByUser" }));
+
+        expect(byPost.map((item) => item.content).sort()).toEqual(["first!", "second!"]);
+        expect(byUser.map((item) => item.content).sort()).toEqual(["first!", "second!"]);
+      });
+    });
+
+    describe("querying a post and its comments together", () => {
+      const table = new Table(document, tableName, {
+        post: { schema: PostSchema, match: { sk: "post" } },
+        comment: { schema: CommentSchema, match: { sk: ["begins_with", "comment#"] } },
+      });
+
+      it("parses each item with the schema of its entity", async () => {
+        const { postId } = await posts.put({ userId: "user3", content: "my content", likes: 4 });
+        await comments.put({ postId, userId: "user4", content: "first!", likes: 0 });
+        await comments.put({ postId, userId: "user5", content: "second!", likes: 1 });
+        await document.put({ TableName: tableName, Item: { pk: postId, sk: "unknown" } });
+
+        const items = await toArray(table.query({ pk: postId }));
+
+        expect(items.map(({ entity }) => entity)).toEqual(["comment", "comment", "post"]);
+        for (const { entity, item } of items) {
+          if (entity === "comment") {
+            expect(item.commentId).toBeDefined();
+          }
+        }
+      });
+
+      it("groups the items by entity", async () => {
+        const { postId } = await posts.put({ userId: "user3", content: "my content", likes: 4 });
+        await comments.put({ postId, userId: "user4", content: "first!", likes: 0 });
+
+        const { post, comment } = await table.group(table.query({ pk: postId }));
+
+        expect(post).toEqual([expect.objectContaining({ postId, content: "my content" })]);
+        expect(comment).toEqual([expect.objectContaining({ postId, content: "first!" })]);
+      });
+    });
   });
 
   describe("modelling the User as an additional domain object", () => {
@@ -418,6 +1538,113 @@ describe("using a repository pattern with DynamoDB", () => {
         isAdmin: false,
       });
     });
+
+    describe("writing across repositories in a transaction", () => {
+      /**
+       * dynalite doesn't implement the transaction APIs, so stand in for DynamoDB here
+       */
+      const transactWrite = jest.spyOn(document, "transactWrite");
+      const transactGetItems = jest.spyOn(document, "transactGet");
+
+      afterAll(() => {
+        transactWrite.mockRestore();
+        transactGetItems.mockRestore();
+      });
+
+      it("commits operations from each repository together", async () => {
+        transactWrite.mockResolvedValueOnce({} as never);
+
+        await transaction()
+          .put(repository, { pk: "post9", sk: "post", userId: "user9", content: "atomic", likes: 0 })
+          .update(users, { pk: "user9", sk: "user" }, { set: { isAdmin: true } })
+          .conditionCheck(users, { pk: "user9", sk: "user" }, { name: ["attribute_exists"] })
+          .commit();
+
+        expect(transactWrite).toHaveBeenCalledWith({
+          TransactItems: [
+            { Put: expect.objectContaining({ TableName: tableName, Item: expect.objectContaining({ pk: "post9" }) }) },
+            { Update: expect.objectContaining({ Key: { pk: "user9", sk: "user" } }) },
+            { ConditionCheck: expect.objectContaining({ ConditionExpression: "(attribute_exists(#name))" }) },
+          ],
+        });
+      });
+
+      it("validates each operation through its repository's schema", () => {
+        expect(() =>
+          transaction()
+            .put(repository, { pk: "post9", sk: "post", userId: "user9", content: "atomic", likes: 0 })
+            .put(users, { name: 42 } as any),
+        ).toThrow(ZodError);
+      });
+
+      it("reports which operation cancelled the transaction", async () => {
+        transactWrite.mockRejectedValueOnce(
+          new TransactionCanceledException({
+            message: "Transaction cancelled",
+            $metadata: {},
+            CancellationReasons: [{ Code: "None" }, { Code: "ConditionalCheckFailed", Message: "nope" }],
+          }) as never,
+        );
+
+        const error = await transaction()
+          .put(repository, { pk: "post9", sk: "post", userId: "user9", content: "atomic", likes: 0 })
+          .update(users, { pk: "user9", sk: "user" }, { set: { isAdmin: true } })
+          .commit()
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(TransactionCancelledError);
+        expect(error.reasons).toEqual([
+          expect.objectContaining({
+            index: 1,
+            operation: "update",
+            repository: users,
+            key: { pk: "user9", sk: "user" },
+            code: "ConditionalCheckFailed",
+          }),
+        ]);
+      });
+
+      it("reads across repositories", async () => {
+        transactGetItems.mockResolvedValueOnce({
+          Responses: [{ Item: { pk: "post9", sk: "post", userId: "user9", content: "atomic", likes: 0 } }, {}],
+        } as never);
+
+        const [post, user] = await transactGet([
+          [repository, { pk: "post9", sk: "post" }],
+          [users, { pk: "user9", sk: "user" }],
+        ]);
+
+        expect(post?.content).toEqual("atomic");
+        expect(user).toBeUndefined();
+      });
+
+      it("takes repositories with any key attributes", async () => {
+        const documents = new Repository(
+          document,
+          tableName,
+          z.object({ documentId: z.string(), version: z.number(), content: z.string() }),
+          { key: { partition: "documentId", sort: "version" } },
+        );
+        transactWrite.mockResolvedValueOnce({} as never);
+        transactGetItems.mockResolvedValueOnce({
+          Responses: [{ Item: { documentId: "doc1", version: 2, content: "second draft" } }],
+        } as never);
+
+        await transaction()
+          .put(documents, { documentId: "doc1", version: 2, content: "second draft" })
+          .delete(documents, { documentId: "doc1", version: 1 })
+          .commit();
+        const [latest] = await transactGet([[documents, { documentId: "doc1", version: 2 }]]);
+
+        expect(transactWrite).toHaveBeenLastCalledWith({
+          TransactItems: [
+            { Put: expect.objectContaining({ Item: expect.objectContaining({ documentId: "doc1", version: 2 }) }) },
+            { Delete: expect.objectContaining({ Key: { documentId: "doc1", version: 1 } }) },
+          ],
+        });
+        expect(latest?.content).toEqual("second draft");
+      });
+    });
   });
 
   afterAll(async () => {
@@ -0,0 +1,108 @@
+import { MemoryDocument, Repository, RepositoryParseError, StreamRecord, changedFields, streamDecoder } from "../lib";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import z from "zod";
+
+describe("decoding DynamoDB Streams records into typed events", () => {
+  const dynamodb = new MemoryDocument();
+
+  const posts = new Repository(
+    dynamodb,
+    "posts",
+    z.object({
+      pk: z.string(),
+      sk: z.literal("post"),
+      title: z.string(),
+      tags: z.set(z.string()),
+      likes: z.number(),
+    }),
+  );
+  const comments = new Repository(
+    dynamodb,
+    "posts",
+    z.object({
+      pk: z.string(),
+      sk: z.string().startsWith("comment#"),
+      content: z.string(),
+    }),
+  );
+
+  const users = new Repository(dynamodb, "users", z.object({ userId: z.string(), name: z.string() }), {
+    key: { partition: "userId" },
+  });
+
+  const decoder = streamDecoder()
+    .route("post", posts, { sk: "post" })
+    .route("comment", comments, { sk: /^comment#/ })
+    .route("user", users, (item) => "userId" in item && !("sk" in item));
+
+  const post = { pk: "post1", sk: "post", title: "streams", tags: new Set(["aws"]), likes: 0 };
+  const comment = { pk: "post1", sk: "comment#1", content: "nice" };
+
+  it("routes each record to its repository and parses the images", () => {
+    const { events, failures } = decoder.decode([
+      toRecord("INSERT", undefined, post),
+      toRecord("MODIFY", post, { ...post, likes: 1 }),
+      toRecord("REMOVE", comment, undefined),
+    ]);
+
+    expect(failures).toEqual([]);
+    expect(events).toEqual([
+      { entity: "post", type: "insert", key: { pk: "post1", sk: "post" }, before: undefined, after: post },
+      { entity: "post", type: "modify", key: { pk: "post1", sk: "post" }, before: post, after: { ...post, likes: 1 } },
+      { entity: "comment", type: "remove", key: { pk: "post1", sk: "comment#1" }, before: comment, after: undefined },
+    ]);
+
+    const [event] = events;
+    expect(event.entity === "post" && event.after?.title).toEqual("streams");
+    // @ts-expect-error only posts have a title, so the entity has to be checked first
+    expect(event.after?.title).toBeDefined();
+  });
+
+  it("lists the fields that changed", () => {
+    const { events } = decoder.decode([
+      toRecord("MODIFY", post, { ...post, tags: new Set(["aws"]), likes: 2 }),
+      toRecord("MODIFY", post, { ...post, tags: new Set(["aws", "dynamodb"]), title: "streams" }),
+    ]);
+
+    expect(events.map(changedFields)).toEqual([["likes"], ["tags"]]);
+  });
+
+  it("routes repositories with their own key attributes", () => {
+    const user = { userId: "user1", name: "tom" };
+    const { events } = decoder.decode([
+      { eventName: "INSERT", dynamodb: { Keys: marshall({ userId: "user1" }), NewImage: marshall(user) } },
+    ]);
+
+    expect(events).toEqual([
+      { entity: "user", type: "insert", key: { userId: "user1" }, before: undefined, after: user },
+    ]);
+  });
+
+  it("reports records that fail to decode without failing the batch", () => {
+    const invalid = toRecord("INSERT", undefined, { ...comment, content: 42 });
+    const { events, failures } = decoder.decode([
+      invalid,
+      toRecord("INSERT", undefined, { pk: "user1", sk: "user" }),
+      toRecord("INSERT", undefined, comment),
+    ]);
+
+    expect(events).toEqual([expect.objectContaining({ entity: "comment", after: comment })]);
+    expect(failures).toEqual([{ record: invalid, entity: "comment", error: expect.any(RepositoryParseError) }]);
+  });
+});
+
+function toRecord(
+  eventName: "INSERT" | "MODIFY" | "REMOVE",
+  before: Record<string, any> | undefined,
+  after: Record<string, any> | undefined,
+): StreamRecord {
+  const { pk, sk } = (after ?? before)!;
+  return {
+    eventName,
+    dynamodb: {
+      Keys: marshall({ pk, sk }),
+      OldImage: before && marshall(before),
+      NewImage: after && marshall(after),
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { InvalidCursorError } from "./errors";
+
+type CursorOptions = {
+  index?: string;
+  secret: string;
+};
+
+type Key = Record<string, string | number>;
+
+/**
+ * Encode a LastEvaluatedKey as an opaque string that can be handed to API clients
+ *
+ * The cursor is signed with the secret so that a modified cursor is rejected rather than silently starting the
+ * next page somewhere else in the table
+ */
+export function encodeCursor(key: Key, options: CursorOptions) {
+  const payload = Buffer.from(JSON.stringify({ index: options.index, key })).toString("base64url");
+  return `${payload}.${sign(payload, options.secret)}`;
+}
+
+/**
+ * Decode a cursor back into an ExclusiveStartKey, checking its signature and that it was issued for
+ * the same index and has the key attributes of the table and of the index
+ */
+export function decodeCursor(cursor: string, options: CursorOptions & { keyAttributes: string[] }): Key {
+  const [payload, signature] = cursor.split(".");
+  if (!payload || !signature || !verify(payload, signature, options.secret)) {
+    throw new InvalidCursorError("Cursor is malformed or has been modified");
+  }
+
+  let decoded: { index?: string; key?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch (e) {
+    throw new InvalidCursorError("Cursor is malformed or has been modified", { cause: e });
+  }
+
+  if (decoded.index !== options.index) {
+    throw new InvalidCursorError(`Cursor was issued for index ${decoded.index ?? "(table)"}`);
+  }
+
+  const key = decoded.key;
+  if (
+    !key ||
+    typeof key !== "object" ||
+    !options.keyAttributes.every((name) => name in key) ||
+    !Object.values(key).every((value) => typeof value === "string" || typeof value === "number")
+  ) {
+    throw new InvalidCursorError(`Cursor does not contain the keys ${options.keyAttributes.join(", ")}`);
+  }
+
+  return key as Key;
+}
+
+function sign(payload: string, secret: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+function verify(payload: string, signature: string, secret: string) {
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
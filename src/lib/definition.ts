@@ -0,0 +1,206 @@
+import {
+  AttributeDefinition,
+  CreateTableCommandInput,
+  KeySchemaElement,
+  Projection,
+  ScalarAttributeType,
+  TableDescription,
+} from "@aws-sdk/client-dynamodb";
+
+export type KeyDefinition = {
+  partition: string;
+  sort?: string;
+};
+
+export type IndexDefinition = KeyDefinition & {
+  /**
+   * A local secondary index, which shares the table's partition key and supports consistent reads
+   */
+  local?: boolean;
+  /**
+   * The attributes copied into the index, defaults to "ALL"
+   */
+  projection?: "ALL" | "KEYS_ONLY" | readonly string[];
+};
+
+export type TableDefinitionOptions<K extends KeyDefinition, X extends Record<string, IndexDefinition>> = {
+  key: K;
+  indexes?: X;
+  /**
+   * Types of the key attributes, defaults to "S" for any key attribute that isn't listed
+   */
+  attributes?: Record<string, ScalarAttributeType>;
+};
+
+/**
+ * A difference between a table definition and the table as DescribeTable reports it
+ */
+export type TableDifference = {
+  /**
+   * What differs, e.g. "key", "attribute userId" or "index ByUser"
+   */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+};
+
+/**
+ * The key layout of a table and its indexes, declared once to create the table, check it hasn't drifted
+ * and check the keys of every query
+ *
+ * const posts = new TableDefinition("posts", {
+ *   key: { partition: "pk", sort: "sk" },
+ *   indexes: { ByUser: { partition: "userId", sort: "sk" } },
+ * });
+ * await dynamodb.createTable(posts.toCreateTableInput());
+ */
+export class TableDefinition<
+  const K extends KeyDefinition = KeyDefinition,
+  const X extends Record<string, IndexDefinition> = Record<string, IndexDefinition>,
+> {
+  constructor(
+    public readonly tableName: string,
+    private readonly options: TableDefinitionOptions<K, X>,
+  ) {
+    for (const [name, index] of this.indexEntries) {
+      if (index.local && index.partition !== options.key.partition) {
+        throw new Error(
+          `Local index ${name} of ${tableName} must have the table's partition key ${options.key.partition}`,
+        );
+      }
+    }
+  }
+
+  public get key(): K {
+    return this.options.key;
+  }
+
+  public get indexes(): X {
+    return this.options.indexes ?? ({} as X);
+  }
+
+  private get indexEntries() {
+    return Object.entries<IndexDefinition>(this.options.indexes ?? {});
+  }
+
+  /**
+   * The key attributes of an index, or of the table itself without an index, throwing for an undeclared index
+   */
+  public toKeyAttributes(index?: string): IndexDefinition {
+    if (index === undefined) {
+      return this.key;
+    }
+    const definition = this.indexes[index];
+    if (!definition) {
+      throw new Error(`Index ${index} isn't declared for ${this.tableName}`);
+    }
+    return definition;
+  }
+
+  public toCreateTableInput(): CreateTableCommandInput {
+    const indexes = this.indexEntries.map(([name, index]) => ({
+      IndexName: name,
+      KeySchema: toKeySchema(index),
+      Projection: toProjection(index),
+      local: index.local,
+    }));
+    const global = indexes.filter((index) => !index.local).map(({ local, ...index }) => index);
+    const local = indexes.filter((index) => index.local).map(({ local, ...index }) => index);
+
+    return {
+      TableName: this.tableName,
+      AttributeDefinitions: this.toAttributeDefinitions(),
+      KeySchema: toKeySchema(this.key),
+      GlobalSecondaryIndexes: global.length ? global : undefined,
+      LocalSecondaryIndexes: local.length ? local : undefined,
+      BillingMode: "PAY_PER_REQUEST",
+    };
+  }
+
+  /**
+   * Compare the definition with a DescribeTable result, e.g. to fail a deploy when the table has drifted
+   */
+  public diff(table: TableDescription): TableDifference[] {
+    const differences: TableDifference[] = [];
+    const compare = (path: string, expected: unknown, actual: unknown) => {
+      if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+        differences.push({ path, expected, actual });
+      }
+    };
+
+    compare("key", fromKeySchema(toKeySchema(this.key)), fromKeySchema(table.KeySchema));
+
+    const actualTypes = new Map(table.AttributeDefinitions?.map((a) => [a.AttributeName, a.AttributeType]));
+    for (const { AttributeName, AttributeType } of this.toAttributeDefinitions()) {
+      compare(`attribute ${AttributeName}`, AttributeType, actualTypes.get(AttributeName));
+    }
+
+    const actualIndexes = new Map(
+      [
+        ...(table.GlobalSecondaryIndexes ?? []).map((index) => ({ ...index, local: false })),
+        ...(table.LocalSecondaryIndexes ?? []).map((index) => ({ ...index, local: true })),
+      ].map((index) => [
+        index.IndexName!,
+        normalizeIndex({
+          ...fromKeySchema(index.KeySchema),
+          local: index.local,
+          projection: fromProjection(index.Projection),
+        }),
+      ]),
+    );
+    for (const [name, index] of this.indexEntries) {
+      compare(`index ${name}`, normalizeIndex(index), actualIndexes.get(name));
+      actualIndexes.delete(name);
+    }
+    for (const [name, index] of actualIndexes) {
+      compare(`index ${name}`, undefined, index);
+    }
+
+    return differences;
+  }
+
+  private toAttributeDefinitions(): AttributeDefinition[] {
+    const names = new Set(
+      [this.key, ...this.indexEntries.map(([, index]) => index)].flatMap(({ partition, sort }) =>
+        sort ? [partition, sort] : [partition],
+      ),
+    );
+    return [...names].map((name) => ({ AttributeName: name, AttributeType: this.options.attributes?.[name] ?? "S" }));
+  }
+}
+
+function toKeySchema({ partition, sort }: KeyDefinition): KeySchemaElement[] {
+  return [
+    { AttributeName: partition, KeyType: "HASH" },
+    ...(sort ? [{ AttributeName: sort, KeyType: "RANGE" as const }] : []),
+  ];
+}
+
+function fromKeySchema(schema: KeySchemaElement[] = []): KeyDefinition {
+  const partition = schema.find((element) => element.KeyType === "HASH")?.AttributeName;
+  const sort = schema.find((element) => element.KeyType === "RANGE")?.AttributeName;
+  return sort ? { partition: partition!, sort } : { partition: partition! };
+}
+
+/**
+ * An index with its properties in a fixed order and defaults filled in, so that two can be compared
+ */
+function normalizeIndex(index: IndexDefinition): IndexDefinition {
+  return {
+    ...fromKeySchema(toKeySchema(index)),
+    local: !!index.local,
+    projection: fromProjection(toProjection(index)),
+  };
+}
+
+function toProjection({ projection = "ALL" }: IndexDefinition): Projection {
+  return projection instanceof Array
+    ? { ProjectionType: "INCLUDE", NonKeyAttributes: [...projection] }
+    : { ProjectionType: projection };
+}
+
+function fromProjection(projection?: Projection): IndexDefinition["projection"] {
+  return projection?.ProjectionType === "INCLUDE"
+    ? [...(projection.NonKeyAttributes ?? [])].sort()
+    : (projection?.ProjectionType as "ALL" | "KEYS_ONLY" | undefined);
+}
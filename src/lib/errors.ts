@@ -0,0 +1,71 @@
+import type { Repository } from "./repository";
+import type { z } from "zod";
+
+export class NotFoundError extends Error {}
+
+export class ConditionFailedError extends Error {}
+
+export class VersionConflictError extends ConditionFailedError {
+  constructor(
+    message: string,
+    public readonly expected: number | undefined,
+    public readonly actual: number | undefined,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+export class InvalidCursorError extends Error {}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly key: Record<string, any>,
+    public readonly version: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+export class RepositoryParseError extends Error {
+  constructor(
+    message: string,
+    public readonly tableName: string,
+    public readonly key: Record<string, any>,
+    public readonly issues: z.ZodIssue[],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+export class RetriesExhaustedError extends Error {
+  constructor(
+    message: string,
+    public readonly unprocessed: Record<string, any>[],
+  ) {
+    super(message);
+  }
+}
+
+export type CancellationReason = {
+  index: number;
+  operation: string;
+  repository: Repository<any, any, any, any, any>;
+  tableName: string;
+  key: Record<string, any>;
+  code?: string;
+  message?: string;
+};
+
+export class TransactionCancelledError extends Error {
+  constructor(
+    message: string,
+    public readonly reasons: CancellationReason[],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
@@ -0,0 +1,658 @@
+import { DynamoDBServiceException } from "@aws-sdk/client-dynamodb";
+
+/**
+ * A document path, e.g. "addresses[0].city" => ["addresses", 0, "city"]
+ */
+export type Path = (string | number)[];
+
+type Operand = { type: "path"; path: Path } | { type: "value"; value: unknown } | { type: "size"; path: Path };
+
+type Comparator = "=" | "<>" | "<" | "<=" | ">" | ">=";
+
+export type ConditionNode =
+  | { type: "compare"; comparator: Comparator; left: Operand; right: Operand }
+  | { type: "between"; operand: Operand; low: Operand; high: Operand }
+  | { type: "in"; operand: Operand; values: Operand[] }
+  | { type: "attribute_exists" | "attribute_not_exists"; path: Path }
+  | { type: "attribute_type" | "begins_with" | "contains"; path: Path; operand: Operand }
+  | { type: "and" | "or"; left: ConditionNode; right: ConditionNode }
+  | { type: "not"; condition: ConditionNode };
+
+type UpdateValue =
+  | Operand
+  | { type: "if_not_exists"; path: Path; fallback: UpdateValue }
+  | { type: "list_append"; first: UpdateValue; second: UpdateValue }
+  | { type: "+" | "-"; left: UpdateValue; right: UpdateValue };
+
+type UpdateAction =
+  | { type: "SET"; path: Path; value: UpdateValue }
+  | { type: "REMOVE"; path: Path }
+  | { type: "ADD" | "DELETE"; path: Path; value: Operand };
+
+export type ExpressionInput = {
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, any>;
+};
+
+const tokenPattern = /\s*(#[A-Za-z0-9_]+|:[A-Za-z0-9_]+|[A-Za-z_][A-Za-z0-9_]*|\d+|<>|<=|>=|[=<>(),.[\]+-])/y;
+
+/**
+ * The error DynamoDB responds with to a malformed request
+ */
+export function validationError(message: string) {
+  return new DynamoDBServiceException({ name: "ValidationException", $fault: "client", $metadata: {}, message });
+}
+
+/**
+ * A recursive descent parser for the expression syntax of condition, filter, key condition, update and
+ * projection expressions, resolving the attribute name and value placeholders as it goes
+ */
+class Parser {
+  private readonly tokens: string[] = [];
+  private position = 0;
+
+  constructor(
+    private readonly expression: string,
+    private readonly input: ExpressionInput,
+  ) {
+    tokenPattern.lastIndex = 0;
+    while (tokenPattern.lastIndex < expression.trimEnd().length) {
+      const match = tokenPattern.exec(expression);
+      if (!match) {
+        throw this.error(`unexpected character at ${tokenPattern.lastIndex}`);
+      }
+      this.tokens.push(match[1]);
+    }
+  }
+
+  public condition(): ConditionNode {
+    const condition = this.or();
+    this.end();
+    return condition;
+  }
+
+  public update(): UpdateAction[] {
+    const actions: UpdateAction[] = [];
+    while (this.peek()) {
+      const clause = this.next().toUpperCase();
+      do {
+        const path = this.path();
+        if (clause === "SET") {
+          this.expect("=");
+          actions.push({ type: "SET", path, value: this.updateValue() });
+        } else if (clause === "REMOVE") {
+          actions.push({ type: "REMOVE", path });
+        } else if (clause === "ADD" || clause === "DELETE") {
+          actions.push({ type: clause, path, value: this.operand() });
+        } else {
+          throw this.error(`unknown clause ${clause}`);
+        }
+      } while (this.accept(","));
+    }
+    return actions;
+  }
+
+  public projection(): Path[] {
+    const paths = [this.path()];
+    while (this.accept(",")) {
+      paths.push(this.path());
+    }
+    this.end();
+    return paths;
+  }
+
+  private or(): ConditionNode {
+    let left = this.and();
+    while (this.acceptKeyword("OR")) {
+      left = { type: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): ConditionNode {
+    let left = this.not();
+    while (this.acceptKeyword("AND")) {
+      left = { type: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): ConditionNode {
+    if (this.acceptKeyword("NOT")) {
+      return { type: "not", condition: this.not() };
+    }
+    return this.primary();
+  }
+
+  private primary(): ConditionNode {
+    if (this.accept("(")) {
+      const condition = this.or();
+      this.expect(")");
+      return condition;
+    }
+
+    const name = this.peek();
+    if (name === "attribute_exists" || name === "attribute_not_exists") {
+      this.next();
+      this.expect("(");
+      const path = this.path();
+      this.expect(")");
+      return { type: name, path };
+    }
+    if (name === "attribute_type" || name === "begins_with" || name === "contains") {
+      this.next();
+      this.expect("(");
+      const path = this.path();
+      this.expect(",");
+      const operand = this.operand();
+      this.expect(")");
+      return { type: name, path, operand };
+    }
+
+    const operand = this.operand();
+    if (this.acceptKeyword("BETWEEN")) {
+      const low = this.operand();
+      if (!this.acceptKeyword("AND")) {
+        throw this.error("expected AND in BETWEEN");
+      }
+      return { type: "between", operand, low, high: this.operand() };
+    }
+    if (this.acceptKeyword("IN")) {
+      this.expect("(");
+      const values = [this.operand()];
+      while (this.accept(",")) {
+        values.push(this.operand());
+      }
+      this.expect(")");
+      return { type: "in", operand, values };
+    }
+
+    const comparator = this.next() as Comparator;
+    if (!["=", "<>", "<", "<=", ">", ">="].includes(comparator)) {
+      throw this.error(`unexpected token ${comparator ?? "at end"}`);
+    }
+    return { type: "compare", comparator, left: operand, right: this.operand() };
+  }
+
+  private operand(): Operand {
+    const token = this.peek();
+    if (token?.startsWith(":")) {
+      this.next();
+      return { type: "value", value: this.value(token) };
+    }
+    if (token === "size" && this.tokens[this.position + 1] === "(") {
+      this.next();
+      this.expect("(");
+      const path = this.path();
+      this.expect(")");
+      return { type: "size", path };
+    }
+    return { type: "path", path: this.path() };
+  }
+
+  private updateValue(): UpdateValue {
+    const left = this.updateOperand();
+    const operator = this.peek();
+    if (operator === "+" || operator === "-") {
+      this.next();
+      return { type: operator, left, right: this.updateOperand() };
+    }
+    return left;
+  }
+
+  private updateOperand(): UpdateValue {
+    const name = this.peek();
+    if (name === "if_not_exists") {
+      this.next();
+      this.expect("(");
+      const path = this.path();
+      this.expect(",");
+      const fallback = this.updateValue();
+      this.expect(")");
+      return { type: name, path, fallback };
+    }
+    if (name === "list_append") {
+      this.next();
+      this.expect("(");
+      const first = this.updateValue();
+      this.expect(",");
+      const second = this.updateValue();
+      this.expect(")");
+      return { type: name, first, second };
+    }
+    return this.operand();
+  }
+
+  private path(): Path {
+    const path: Path = [this.name(this.next())];
+    for (;;) {
+      if (this.accept(".")) {
+        path.push(this.name(this.next()));
+      } else if (this.accept("[")) {
+        const index = this.next();
+        if (!/^\d+$/.test(index ?? "")) {
+          throw this.error(`expected a list index, got ${index}`);
+        }
+        path.push(Number(index));
+        this.expect("]");
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private name(token: string | undefined) {
+    if (token?.startsWith("#")) {
+      const name = this.input.ExpressionAttributeNames?.[token];
+      if (name === undefined) {
+        throw validationError(
+          `Invalid ${this.expression}: An expression attribute name used in the document path is not defined; attribute name: ${token}`,
+        );
+      }
+      return name;
+    }
+    if (!token || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(token)) {
+      throw this.error(`expected an attribute name, got ${token ?? "the end"}`);
+    }
+    return token;
+  }
+
+  private value(token: string) {
+    const values = this.input.ExpressionAttributeValues ?? {};
+    if (!(token in values)) {
+      throw validationError(
+        `Invalid ${this.expression}: An expression attribute value used in expression is not defined; attribute value: ${token}`,
+      );
+    }
+    return values[token];
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): string {
+    return this.tokens[this.position++];
+  }
+
+  private accept(token: string) {
+    if (this.peek() === token) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(keyword: string) {
+    if (this.peek()?.toUpperCase() === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(token: string) {
+    if (!this.accept(token)) {
+      throw this.error(`expected ${token}, got ${this.peek() ?? "the end"}`);
+    }
+  }
+
+  private end() {
+    if (this.peek() !== undefined) {
+      throw this.error(`unexpected token ${this.peek()}`);
+    }
+  }
+
+  private error(message: string) {
+    return validationError(`Invalid expression "${this.expression}": ${message}`);
+  }
+}
+
+export function parseCondition(expression: string, input: ExpressionInput) {
+  return new Parser(expression, input).condition();
+}
+
+/**
+ * Whether an item (undefined when it doesn't exist) satisfies a condition or filter expression, true without one
+ */
+export function matches(item: Record<string, any> | undefined, expression: string | undefined, input: ExpressionInput) {
+  return !expression || evaluate(parseCondition(expression, input), item ?? {});
+}
+
+export function evaluate(condition: ConditionNode, item: Record<string, any>): boolean {
+  switch (condition.type) {
+    case "and":
+      return evaluate(condition.left, item) && evaluate(condition.right, item);
+    case "or":
+      return evaluate(condition.left, item) || evaluate(condition.right, item);
+    case "not":
+      return !evaluate(condition.condition, item);
+    case "attribute_exists":
+      return getPath(item, condition.path) !== undefined;
+    case "attribute_not_exists":
+      return getPath(item, condition.path) === undefined;
+    case "attribute_type":
+      return typeOf(getPath(item, condition.path)) === resolve(condition.operand, item);
+    case "begins_with": {
+      const value = getPath(item, condition.path);
+      const prefix = resolve(condition.operand, item);
+      return typeof value === "string" && typeof prefix === "string" && value.startsWith(prefix);
+    }
+    case "contains": {
+      const value = getPath(item, condition.path);
+      const element = resolve(condition.operand, item);
+      if (typeof value === "string") {
+        return typeof element === "string" && value.includes(element);
+      }
+      if (value instanceof Array || value instanceof Set) {
+        return [...value].some((member) => equals(member, element));
+      }
+      return false;
+    }
+    case "between": {
+      const value = resolve(condition.operand, item);
+      const low = compare(value, resolve(condition.low, item));
+      const high = compare(value, resolve(condition.high, item));
+      return low !== undefined && high !== undefined && low >= 0 && high <= 0;
+    }
+    case "in": {
+      const value = resolve(condition.operand, item);
+      return value !== undefined && condition.values.some((operand) => equals(value, resolve(operand, item)));
+    }
+    case "compare": {
+      const left = resolve(condition.left, item);
+      const right = resolve(condition.right, item);
+      if (left === undefined || right === undefined) {
+        return false;
+      }
+      if (condition.comparator === "=") {
+        return equals(left, right);
+      }
+      if (condition.comparator === "<>") {
+        return !equals(left, right);
+      }
+      const order = compare(left, right);
+      if (order === undefined) {
+        return false;
+      }
+      return {
+        "<": order < 0,
+        "<=": order <= 0,
+        ">": order > 0,
+        ">=": order >= 0,
+      }[condition.comparator];
+    }
+  }
+}
+
+function resolve(operand: Operand, item: Record<string, any>): unknown {
+  switch (operand.type) {
+    case "value":
+      return operand.value;
+    case "path":
+      return getPath(item, operand.path);
+    case "size": {
+      const value = getPath(item, operand.path);
+      if (typeof value === "string") {
+        return Buffer.byteLength(value);
+      }
+      if (value instanceof Uint8Array) {
+        return value.length;
+      }
+      if (value instanceof Array) {
+        return value.length;
+      }
+      if (value instanceof Set) {
+        return value.size;
+      }
+      return isMap(value) ? Object.keys(value).length : undefined;
+    }
+  }
+}
+
+/**
+ * Apply an update expression to a copy of the item, or to an empty item when it doesn't exist yet
+ */
+export function applyUpdate(
+  item: Record<string, any> | undefined,
+  expression: string,
+  input: ExpressionInput,
+): Record<string, any> {
+  const actions = new Parser(expression, input).update();
+  const updated = clone(item ?? {});
+
+  for (const action of actions) {
+    switch (action.type) {
+      case "SET":
+        setPath(updated, action.path, updateValue(action.value, item ?? {}));
+        break;
+      case "REMOVE":
+        removePath(updated, action.path);
+        break;
+      case "ADD": {
+        const current = getPath(updated, action.path);
+        const value = resolve(action.value, item ?? {});
+        if (typeof value === "number") {
+          setPath(updated, action.path, (typeof current === "number" ? current : 0) + value);
+        } else if (value instanceof Set) {
+          setPath(updated, action.path, new Set([...(current instanceof Set ? current : []), ...value]));
+        } else {
+          throw validationError(
+            "Invalid UpdateExpression: Incorrect operand type for operator or function; operator: ADD",
+          );
+        }
+        break;
+      }
+      case "DELETE": {
+        const current = getPath(updated, action.path);
+        const value = resolve(action.value, item ?? {});
+        if (current instanceof Set && value instanceof Set) {
+          const remaining = new Set([...current].filter((member) => !value.has(member)));
+          if (remaining.size) {
+            setPath(updated, action.path, remaining);
+          } else {
+            removePath(updated, action.path);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return updated;
+}
+
+function updateValue(value: UpdateValue, item: Record<string, any>): unknown {
+  switch (value.type) {
+    case "if_not_exists":
+      return getPath(item, value.path) ?? updateValue(value.fallback, item);
+    case "list_append": {
+      const first = updateValue(value.first, item);
+      const second = updateValue(value.second, item);
+      if (!(first instanceof Array) || !(second instanceof Array)) {
+        throw validationError("Invalid UpdateExpression: Incorrect operand type for operator or function; list_append");
+      }
+      return [...first, ...second];
+    }
+    case "+":
+    case "-": {
+      const left = updateValue(value.left, item);
+      const right = updateValue(value.right, item);
+      if (typeof left !== "number" || typeof right !== "number") {
+        throw validationError(
+          `Invalid UpdateExpression: Incorrect operand type for operator or function; ${value.type}`,
+        );
+      }
+      return value.type === "+" ? left + right : left - right;
+    }
+    default: {
+      const resolved = resolve(value, item);
+      if (resolved === undefined) {
+        throw validationError("The provided expression refers to an attribute that does not exist in the item");
+      }
+      return resolved;
+    }
+  }
+}
+
+/**
+ * Copy only the attributes at the paths of a projection expression
+ */
+export function project(item: Record<string, any>, expression: string | undefined, input: ExpressionInput) {
+  if (!expression) {
+    return item;
+  }
+
+  const projected: Record<string, any> = {};
+  for (const path of new Parser(expression, input).projection()) {
+    const value = getPath(item, path);
+    if (value !== undefined) {
+      setPath(projected, path.slice(0, 1), mergeProjection(projected[path[0] as string], item[path[0]], path.slice(1)));
+    }
+  }
+  return projected;
+}
+
+/**
+ * Merge the part of a document at a path into what has been projected from it so far, keeping lists and maps
+ */
+function mergeProjection(projected: unknown, value: unknown, path: Path): unknown {
+  if (!path.length) {
+    return value;
+  }
+  const [segment, ...rest] = path;
+  const container: any = projected ?? (typeof segment === "number" ? [] : {});
+  if (typeof segment === "number" && container instanceof Array) {
+    container.push(mergeProjection(undefined, (value as unknown[])[segment], rest));
+  } else {
+    container[segment] = mergeProjection(container[segment], (value as any)[segment], rest);
+  }
+  return container;
+}
+
+/**
+ * Deep copy a document. Unlike structuredClone, the copy's lists and sets are from this realm, so instanceof
+ * checks keep working under jest
+ */
+export function clone<V>(value: V): V {
+  if (value instanceof Array) {
+    return value.map(clone) as V;
+  }
+  if (value instanceof Set) {
+    return new Set([...value].map(clone)) as V;
+  }
+  if (value instanceof Uint8Array) {
+    return new Uint8Array(value) as V;
+  }
+  if (isMap(value)) {
+    return Object.fromEntries(Object.entries(value).map(([name, member]) => [name, clone(member)])) as V;
+  }
+  return value;
+}
+
+export function getPath(item: Record<string, any>, path: Path): any {
+  let value: any = item;
+  for (const segment of path) {
+    if (typeof segment === "number" ? !(value instanceof Array) : !isMap(value)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+function setPath(item: Record<string, any>, path: Path, value: unknown) {
+  const parent = getPath(item, path.slice(0, -1));
+  const segment = path[path.length - 1];
+  if (typeof segment === "number" ? !(parent instanceof Array) : !isMap(parent)) {
+    throw validationError("The document path provided in the update expression is invalid for update");
+  }
+  if (typeof segment === "number" && segment >= parent.length) {
+    parent.push(value);
+  } else {
+    parent[segment] = value;
+  }
+}
+
+function removePath(item: Record<string, any>, path: Path) {
+  const parent = getPath(item, path.slice(0, -1));
+  const segment = path[path.length - 1];
+  if (typeof segment === "number" && parent instanceof Array) {
+    parent.splice(segment, 1);
+  } else if (isMap(parent)) {
+    delete parent[segment];
+  }
+}
+
+/**
+ * Order two scalars of the same type, or undefined when they can't be compared. Strings and binary compare by
+ * their bytes, as in DynamoDB
+ */
+export function compare(a: unknown, b: unknown): number | undefined {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return Buffer.compare(Buffer.from(a), Buffer.from(b));
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return Buffer.compare(a, b);
+  }
+  return undefined;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a instanceof Set && b instanceof Set) {
+    return a.size === b.size && [...a].every((member) => b.has(member));
+  }
+  if (a instanceof Array && b instanceof Array) {
+    return a.length === b.length && a.every((element, index) => equals(element, b[index]));
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return Buffer.compare(a, b) === 0;
+  }
+  if (isMap(a) && isMap(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => equals(a[key], b[key]));
+  }
+  return a === b;
+}
+
+function typeOf(value: unknown) {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null) {
+    return "NULL";
+  }
+  if (typeof value === "string") {
+    return "S";
+  }
+  if (typeof value === "number") {
+    return "N";
+  }
+  if (typeof value === "boolean") {
+    return "BOOL";
+  }
+  if (value instanceof Uint8Array) {
+    return "B";
+  }
+  if (value instanceof Array) {
+    return "L";
+  }
+  if (value instanceof Set) {
+    const [first] = value;
+    return typeof first === "number" ? "NS" : first instanceof Uint8Array ? "BS" : "SS";
+  }
+  return "M";
+}
+
+function isMap(value: unknown): value is Record<string, any> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !(value instanceof Array) &&
+    !(value instanceof Set) &&
+    !(value instanceof Uint8Array)
+  );
+}
@@ -1,57 +1,174 @@
 type Value = string | number | boolean;
-type Operator = "=" | "<" | "<=" | ">" | ">=" | "begins_with";
+type Comparator = "=" | "<>" | "<" | "<=" | ">" | ">=";
+export type Operator = Exclude<Comparator, "<>"> | "begins_with";
+type AttributeType = "S" | "SS" | "N" | "NS" | "B" | "BS" | "BOOL" | "NULL" | "L" | "M";
 export type Expression = Value | [Operator, Value] | ["between", Value, Value];
+export type FilterExpression =
+  | Expression
+  | ["<>", Value]
+  | ["contains", Value]
+  | ["in", Value[]]
+  | ["attribute_exists"]
+  | ["attribute_not_exists"]
+  | ["attribute_type", AttributeType]
+  | ["size", Comparator, number];
 
-export function toKeyConditionExpression(keys: Record<string, Expression>) {
-  const values = Object.entries(keys)
-    .map(([key, expr]) => toExpressionValue(key, expr))
-    .reduce((values, current) => ({ ...values, ...current }), {});
+/**
+ * Attributes compared with "and" when given as an object, or grouped explicitly with nested tuples
+ *
+ * ["or", { likes: [">", 5] }, ["not", { content: ["contains", "spam"] }]]
+ */
+export type Condition = Record<string, FilterExpression> | ["and" | "or", ...Condition[]] | ["not", Condition];
+
+/**
+ * Attribute names can be document paths into maps and lists, e.g. "address.city" or "tags[0]"
+ */
+export type NestedPath = `${string}.${string}` | `${string}[${number}]${string}`;
+
+/**
+ * Split a document path into its attribute names and list indexes
+ *
+ * "addresses[0].city" => ["addresses", 0, "city"]
+ */
+export function toPathSegments(path: string) {
+  return Array.from(path.matchAll(/([^.[\]]+)|\[(\d+)\]/g), ([, name, index]) =>
+    index !== undefined ? Number(index) : name,
+  );
+}
+
+/**
+ * Collects the placeholder names and values for every expression in a single request, so that the key
+ * condition, filter, condition and update expressions can't clash when they refer to the same attribute
+ *
+ * Every attribute name goes through a placeholder, so reserved words (name, status, count) and names that
+ * aren't valid in an expression (gsi1-pk) are always safe to use
+ */
+export class ExpressionAttributes {
+  public readonly names: Record<string, string> = {};
+  public readonly values: Record<string, unknown> = {};
+
+  public name(path: string) {
+    return toPathSegments(path)
+      .map((segment) => (typeof segment === "number" ? `[${segment}]` : this.placeholder(segment)))
+      .join(".")
+      .replace(/\.\[/g, "[");
+  }
+
+  public value(name: string, value: unknown) {
+    const sanitized = name.replace(/[^a-zA-Z0-9_]/g, "_");
+    let placeholder = `:${sanitized}`;
+    for (let i = 1; placeholder in this.values; i++) {
+      placeholder = `:${sanitized}${i}`;
+    }
+    this.values[placeholder] = value;
+    return placeholder;
+  }
+
+  public toInput() {
+    return {
+      ExpressionAttributeNames: Object.keys(this.names).length ? this.names : undefined,
+      ExpressionAttributeValues: Object.keys(this.values).length ? this.values : undefined,
+    };
+  }
+
+  private placeholder(name: string) {
+    const sanitized = name.replace(/[^a-zA-Z0-9_]/g, "_");
+    let placeholder = `#${sanitized}`;
+    for (let i = 1; placeholder in this.names && this.names[placeholder] !== name; i++) {
+      placeholder = `#${sanitized}${i}`;
+    }
+    this.names[placeholder] = name;
+    return placeholder;
+  }
+}
+
+export function toKeyConditionExpression(
+  keys: Record<string, Expression>,
+  attributes: ExpressionAttributes = new ExpressionAttributes(),
+) {
   const expression = Object.entries(keys)
-    .map(([key, expr]) => toExpression(key, expr))
+    .map(([key, expr]) => toExpression(key, expr, attributes))
     .join(" and ");
 
   return {
-    values,
+    values: attributes.values,
     expression,
   };
 }
 
-export function toFilterConditionExpression(filter?: Record<string, Expression>) {
+export function toFilterConditionExpression(
+  filter?: Condition,
+  attributes: ExpressionAttributes = new ExpressionAttributes(),
+) {
   if (!filter) {
     return {
       expression: undefined,
-      values: {},
+      values: attributes.values,
     };
   }
 
-  return toKeyConditionExpression(filter);
+  return {
+    expression: toCondition(filter, attributes),
+    values: attributes.values,
+  };
 }
 
-function toExpression(key: string, expr: Expression) {
-  const operator = expr instanceof Array ? expr[0] : "=";
-  switch (operator) {
-    case "between":
-      return `${key} between :${key}min and :${key}max`;
-    case "begins_with":
-      return `begins_with(${key}, :${key})`;
-    default:
-      return `${key} ${operator} :${key}`;
+/**
+ * Combine an optional condition with any conditions the repository itself requires, e.g. attribute_exists(pk)
+ */
+export function toConditionExpression(
+  condition?: Condition,
+  attributes: ExpressionAttributes = new ExpressionAttributes(),
+  ...required: Condition[]
+) {
+  const { expression, values } = toFilterConditionExpression(condition, attributes);
+  const expressions = [...required.map((c) => toCondition(c, attributes)), ...(expression ? [`(${expression})`] : [])];
+
+  return {
+    expression: expressions.length ? expressions.join(" and ") : undefined,
+    values,
+  };
+}
+
+function toCondition(condition: Condition, attributes: ExpressionAttributes): string {
+  if (!(condition instanceof Array)) {
+    return Object.entries(condition)
+      .map(([key, expr]) => toExpression(key, expr, attributes))
+      .join(" and ");
+  }
+
+  const [group, ...conditions] = condition;
+  if (!conditions.length) {
+    throw new Error(`Condition group "${group}" must contain at least one condition`);
+  }
+  if (group === "not") {
+    return `not (${toCondition(conditions[0], attributes)})`;
   }
+  return conditions.map((c) => `(${toCondition(c, attributes)})`).join(` ${group} `);
 }
 
-function toExpressionValue(key: string, expr: Expression): Record<string, Value> {
-  const operator = expr instanceof Array ? expr[0] : "=";
-  const value = expr instanceof Array ? expr[1] : expr;
-  switch (operator) {
+function toExpression(path: string, expr: FilterExpression, attributes: ExpressionAttributes) {
+  const key = attributes.name(path);
+  if (!(expr instanceof Array)) {
+    return `${key} = ${attributes.value(path, expr)}`;
+  }
+
+  switch (expr[0]) {
     case "between":
-      return {
-        [`:${key}min`]: (expr as Value[])[1],
-        [`:${key}max`]: (expr as Value[])[2],
-      };
+      return `${key} between ${attributes.value(`${path}min`, expr[1])} and ${attributes.value(`${path}max`, expr[2])}`;
+    case "begins_with":
+    case "contains":
+    case "attribute_type":
+      return `${expr[0]}(${key}, ${attributes.value(path, expr[1])})`;
+    case "attribute_exists":
+    case "attribute_not_exists":
+      return `${expr[0]}(${key})`;
+    case "in":
+      return `${key} IN (${expr[1].map((value) => attributes.value(path, value)).join(", ")})`;
+    case "size":
+      return `size(${key}) ${expr[1]} ${attributes.value(`${path}size`, expr[2])}`;
     default:
-      return {
-        [`:${key}`]: value,
-      };
+      return `${key} ${expr[0]} ${attributes.value(path, expr[1])}`;
   }
 }
 
@@ -60,3 +177,57 @@ export function toExpressionAttributeValues(params: Record<string, any>) {
     .map(([key, value]) => [`:${key}`, value])
     .reduce((hash, [key, value]) => ({ ...hash, [key]: value }), {});
 }
+
+type NumberKeys<T> = { [K in keyof T]-?: NonNullable<T[K]> extends number ? K : never }[keyof T];
+type ListKeys<T> = { [K in keyof T]-?: NonNullable<T[K]> extends any[] ? K : never }[keyof T];
+type OptionalKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? K : never }[keyof T];
+
+export type UpdateChanges<T> = {
+  set?: Partial<T> & { [path: NestedPath]: unknown };
+  setIfNotExists?: Partial<T> & { [path: NestedPath]: unknown };
+  remove?: (OptionalKeys<T> | NestedPath)[];
+  add?: { [K in NumberKeys<T>]?: number } & { [path: NestedPath]: number };
+  append?: { [K in ListKeys<T>]?: NonNullable<T[K]> } & { [path: NestedPath]: unknown[] };
+};
+
+export function toUpdateExpression(
+  changes: UpdateChanges<Record<string, any>>,
+  attributes: ExpressionAttributes = new ExpressionAttributes(),
+) {
+  const set = Object.entries(changes.set ?? {});
+  const setIfNotExists = Object.entries(changes.setIfNotExists ?? {});
+  const append = Object.entries(changes.append ?? {});
+  const add = Object.entries(changes.add ?? {});
+  const remove = changes.remove ?? [];
+
+  const setClauses = [
+    ...set.map(([path, value]) => `${attributes.name(path)} = ${attributes.value(path, value)}`),
+    ...setIfNotExists.map(([path, value]) => {
+      const key = attributes.name(path);
+      return `${key} = if_not_exists(${key}, ${attributes.value(path, value)})`;
+    }),
+    ...append.map(([path, value]) => {
+      const key = attributes.name(path);
+      const empty = attributes.value("empty", []);
+      return `${key} = list_append(if_not_exists(${key}, ${empty}), ${attributes.value(path, value)})`;
+    }),
+  ];
+  const addClauses = add.map(([path, value]) => `${attributes.name(path)} ${attributes.value(path, value)}`);
+
+  const expression = [
+    setClauses.length ? `SET ${setClauses.join(", ")}` : undefined,
+    remove.length ? `REMOVE ${remove.map((path) => attributes.name(path)).join(", ")}` : undefined,
+    addClauses.length ? `ADD ${addClauses.join(", ")}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  if (!expression) {
+    throw new Error("At least one change is required to update an item");
+  }
+
+  return {
+    expression,
+    values: attributes.values,
+  };
+}
@@ -0,0 +1,78 @@
+import type { DynamoDBDocument } from "@aws-sdk/lib-dynamodb";
+import type { UpdateChanges } from "./expressions";
+
+export type Operation =
+  | "get"
+  | "batchGet"
+  | "put"
+  | "batchPut"
+  | "create"
+  | "replace"
+  | "update"
+  | "delete"
+  | "batchDelete"
+  | "deleteMany"
+  | "conditionCheck"
+  | "query"
+  | "count"
+  | "scan";
+
+export type OperationContext = {
+  operation: Operation;
+  tableName: string;
+  /**
+   * The key of a get, update, delete or conditionCheck, each key of a batchGet or batchDelete, or the key conditions
+   * of a query, count or deleteMany
+   */
+  key?: Record<string, any>;
+  /**
+   * The item passed to put, create or replace, or each item of a batchPut, before it's validated through the schema
+   */
+  item?: Record<string, any>;
+  /**
+   * The changes passed to update
+   */
+  changes?: UpdateChanges<Record<string, any>>;
+};
+
+/**
+ * Hooks around a repository's operations, e.g. for audit logging, access checks or normalising fields
+ *
+ * getRaw() runs the hooks of a get, with the item as it's stored, and batchGet(), batchPut() and batchDelete() run
+ * them for each item. deleteMany() runs them for the query and then those of batchDelete() for the items it finds.
+ * A transaction runs the hooks of each of its operations when it's committed, rejecting the whole transaction if one
+ * throws, and the after hooks with undefined once it's committed.
+ */
+export type Hooks = {
+  /**
+   * Called before the request is sent. Return a context with a different key or item to change the operation,
+   * or throw to reject it
+   */
+  before?: (context: OperationContext) => OperationContext | void | Promise<OperationContext | void>;
+  /**
+   * Called with the item an operation returns after it's parsed, or with each item of a query or scan, and with
+   * undefined when there's no item, like after a count. Return an item to replace it
+   */
+  after?: (
+    context: OperationContext,
+    item: Record<string, any> | undefined,
+  ) => Record<string, any> | void | Promise<Record<string, any> | void>;
+};
+
+const registered = new WeakMap<DynamoDBDocument, Hooks[]>();
+
+/**
+ * Run hooks around the operations of every repository using the client, before those of the repository itself,
+ * returning a function to remove them again
+ */
+export function useHooks(dynamodb: DynamoDBDocument, hooks: Hooks): () => void {
+  registered.set(dynamodb, [...(registered.get(dynamodb) ?? []), hooks]);
+  return () => registered.set(dynamodb, registered.get(dynamodb)?.filter((h) => h !== hooks) ?? []);
+}
+
+/**
+ * The hooks registered with useHooks() for a client
+ */
+export function clientHooks(dynamodb: DynamoDBDocument): Hooks[] {
+  return registered.get(dynamodb) ?? [];
+}
@@ -1,2 +1,9 @@
+export * from "./definition";
+export * from "./errors";
 export * from "./expressions";
+export * from "./hooks";
+export * from "./memory";
 export * from "./repository";
+export * from "./streams";
+export * from "./table";
+export * from "./transaction";
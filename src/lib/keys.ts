@@ -0,0 +1,55 @@
+const placeholder = /\{([^{}]+)\}/g;
+
+/**
+ * The fields a key template is built from
+ *
+ * "comment#{commentId}" => ["commentId"]
+ */
+export function toTemplateFields(template: string) {
+  return Array.from(template.matchAll(placeholder), ([, field]) => field);
+}
+
+/**
+ * The fields a key template is built from, at the type level
+ *
+ * TemplateFields<"comment#{commentId}"> => "commentId"
+ */
+export type TemplateFields<T extends string> = T extends `${string}{${infer F}}${infer R}`
+  ? F | TemplateFields<R>
+  : never;
+
+/**
+ * Fill in a key template from an item's fields, stopping at the first field that isn't given
+ *
+ * A template that is a single field keeps the field's value as it is, so numeric keys stay numbers
+ *
+ * "comment#{commentId}", { commentId: "1" } => { value: "comment#1", complete: true }
+ * "comment#{commentId}", {} => { value: "comment#", complete: false }
+ */
+export function fillTemplate(
+  template: string,
+  fields: Record<string, unknown>,
+): { value: string | number; complete: boolean } {
+  const single = template.match(/^\{([^{}]+)\}$/);
+  if (single && isFieldValue(fields[single[1]])) {
+    return { value: fields[single[1]] as string | number, complete: true };
+  }
+
+  let value = "";
+  let index = 0;
+  for (const match of template.matchAll(placeholder)) {
+    value += template.slice(index, match.index);
+    const field = fields[match[1]];
+    if (!isFieldValue(field)) {
+      return { value, complete: false };
+    }
+    value += String(field);
+    index = match.index! + match[0].length;
+  }
+
+  return { value: value + template.slice(index), complete: true };
+}
+
+function isFieldValue(value: unknown): value is string | number {
+  return typeof value === "string" || typeof value === "number";
+}
@@ -0,0 +1,617 @@
+import {
+  BatchGetCommandInput,
+  BatchGetCommandOutput,
+  BatchWriteCommandInput,
+  BatchWriteCommandOutput,
+  DeleteCommandInput,
+  DeleteCommandOutput,
+  DynamoDBDocument,
+  GetCommandInput,
+  GetCommandOutput,
+  PutCommandInput,
+  PutCommandOutput,
+  QueryCommandInput,
+  QueryCommandOutput,
+  ScanCommandInput,
+  ScanCommandOutput,
+  TransactGetCommandInput,
+  TransactGetCommandOutput,
+  TransactWriteCommandInput,
+  TransactWriteCommandOutput,
+  UpdateCommandInput,
+  UpdateCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  CancellationReason,
+  ConditionalCheckFailedException,
+  ConsumedCapacity,
+  DynamoDBClient,
+  ResourceNotFoundException,
+  ReturnConsumedCapacity,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  ConditionNode,
+  ExpressionInput,
+  applyUpdate,
+  clone,
+  compare,
+  evaluate,
+  matches,
+  parseCondition,
+  project,
+  validationError,
+} from "./evaluate";
+import { IndexDefinition, KeyDefinition, TableDefinition } from "./definition";
+import { createHash } from "node:crypto";
+
+type Item = Record<string, any>;
+
+type MemoryTable = {
+  definition: TableDefinition<any, any>;
+  types: Record<string, string>;
+  items: Map<string, Item>;
+};
+
+/**
+ * A table or one of its indexes, as the items a query or scan reads from
+ */
+type View = {
+  table: MemoryTable;
+  key: KeyDefinition;
+  index?: IndexDefinition;
+};
+
+/**
+ * A stand-in for DynamoDBDocument that keeps its tables in memory, so that repositories can be tested without a
+ * running DynamoDB. It supports the operations the repository uses, and fails with the same errors DynamoDB
+ * would: ConditionalCheckFailedException, TransactionCanceledException, ResourceNotFoundException and
+ * ValidationException
+ *
+ * const dynamodb = new MemoryDocument([definition]);
+ * const posts = new Repository(dynamodb, definition.tableName, PostSchema, { definition });
+ */
+export class MemoryDocument extends DynamoDBDocument {
+  private readonly tables = new Map<string, MemoryTable>();
+
+  constructor(definitions: TableDefinition<any, any>[] = []) {
+    super(new DynamoDBClient({ region: "memory" }));
+    definitions.forEach((definition) => this.createTable(definition));
+  }
+
+  public createTable(definition: TableDefinition<any, any>) {
+    if (this.tables.has(definition.tableName)) {
+      throw new Error(`Table ${definition.tableName} already exists`);
+    }
+    const types = Object.fromEntries(
+      (definition.toCreateTableInput().AttributeDefinitions ?? []).map((a) => [a.AttributeName, a.AttributeType]),
+    );
+    this.tables.set(definition.tableName, { definition, types, items: new Map() });
+  }
+
+  public deleteTable(tableName: string) {
+    this.table(tableName);
+    this.tables.delete(tableName);
+  }
+
+  /**
+   * Every item in a table, e.g. to check what a test left behind
+   */
+  public items(tableName: string): Item[] {
+    return [...this.table(tableName).items.values()].map((item) => clone(item));
+  }
+
+  public override async get(input: GetCommandInput, options?: unknown): Promise<GetCommandOutput> {
+    throwIfAborted(options);
+    const table = this.table(input.TableName);
+    const item = table.items.get(this.toId(table, input.Key));
+
+    return {
+      $metadata: {},
+      Item: item && clone(project(item, input.ProjectionExpression, input)),
+      ConsumedCapacity: toCapacity(table, input.ReturnConsumedCapacity),
+    };
+  }
+
+  public override async put(input: PutCommandInput, options?: unknown): Promise<PutCommandOutput> {
+    throwIfAborted(options);
+    const table = this.table(input.TableName);
+    const id = this.toId(table, input.Item);
+    const existing = table.items.get(id);
+    this.check(existing, input.ConditionExpression, input);
+
+    table.items.set(id, this.toStored(table, input.Item));
+    return {
+      $metadata: {},
+      Attributes: input.ReturnValues === "ALL_OLD" && existing ? clone(existing) : undefined,
+      ConsumedCapacity: toCapacity(table, input.ReturnConsumedCapacity),
+    };
+  }
+
+  public override async update(input: UpdateCommandInput, options?: unknown): Promise<UpdateCommandOutput> {
+    throwIfAborted(options);
+    const table = this.table(input.TableName);
+    const id = this.toId(table, input.Key);
+    const existing = table.items.get(id);
+    this.check(existing, input.ConditionExpression, input);
+
+    const updated = this.toUpdated(table, existing, input);
+    table.items.set(id, updated);
+    return {
+      $metadata: {},
+      Attributes: toReturnValues(input.ReturnValues, existing, updated),
+      ConsumedCapacity: toCapacity(table, input.ReturnConsumedCapacity),
+    };
+  }
+
+  public override async delete(input: DeleteCommandInput, options?: unknown): Promise<DeleteCommandOutput> {
+    throwIfAborted(options);
+    const table = this.table(input.TableName);
+    const id = this.toId(table, input.Key);
+    const existing = table.items.get(id);
+    this.check(existing, input.ConditionExpression, input);
+
+    table.items.delete(id);
+    return {
+      $metadata: {},
+      Attributes: input.ReturnValues === "ALL_OLD" && existing ? clone(existing) : undefined,
+      ConsumedCapacity: toCapacity(table, input.ReturnConsumedCapacity),
+    };
+  }
+
+  public override async query(input: QueryCommandInput, options?: unknown): Promise<QueryCommandOutput> {
+    throwIfAborted(options);
+    const view = this.view(input.TableName, input.IndexName, input.ConsistentRead);
+    if (!input.KeyConditionExpression) {
+      throw validationError("Either the KeyConditions or KeyConditionExpression parameter must be specified");
+    }
+    const condition = parseCondition(input.KeyConditionExpression, input);
+    assertKeyCondition(condition, view.key);
+
+    const items = this.viewItems(view).filter((item) => evaluate(condition, item));
+    if (input.ScanIndexForward === false) {
+      items.reverse();
+    }
+    return this.read(view, items, input, input.ScanIndexForward === false);
+  }
+
+  public override async scan(input: ScanCommandInput, options?: unknown): Promise<ScanCommandOutput> {
+    throwIfAborted(options);
+    const view = this.view(input.TableName, input.IndexName, input.ConsistentRead);
+    if ((input.Segment === undefined) !== (input.TotalSegments === undefined)) {
+      throw validationError("Segment and TotalSegments must be specified together");
+    }
+
+    const items = this.viewItems(view).filter(
+      (item) =>
+        input.TotalSegments === undefined || toSegment(item[view.key.partition], input.TotalSegments) === input.Segment,
+    );
+    return this.read(view, items, input);
+  }
+
+  public override async batchGet(input: BatchGetCommandInput, options?: unknown): Promise<BatchGetCommandOutput> {
+    throwIfAborted(options);
+    const requests = Object.entries(input.RequestItems ?? {});
+    const count = requests.reduce((count, [, { Keys }]) => count + (Keys?.length ?? 0), 0);
+    if (count > 100) {
+      throw validationError("Too many items requested for the BatchGetItem call");
+    }
+
+    const responses = requests.map(([tableName, request]) => {
+      const table = this.table(tableName);
+      const ids = (request.Keys ?? []).map((key) => this.toId(table, key));
+      if (new Set(ids).size !== ids.length) {
+        throw validationError("Provided list of item keys contains duplicates");
+      }
+      const items = ids.flatMap((id) => {
+        const item = table.items.get(id);
+        return item ? [clone(project(item, request.ProjectionExpression, request))] : [];
+      });
+      return [tableName, items] as const;
+    });
+
+    return {
+      $metadata: {},
+      Responses: Object.fromEntries(responses),
+      UnprocessedKeys: {},
+      ConsumedCapacity: toCapacities(
+        requests.map(([tableName]) => this.table(tableName)),
+        input.ReturnConsumedCapacity,
+      ),
+    };
+  }
+
+  public override async batchWrite(input: BatchWriteCommandInput, options?: unknown): Promise<BatchWriteCommandOutput> {
+    throwIfAborted(options);
+    const requests = Object.entries(input.RequestItems ?? {}).flatMap(([tableName, writes]) =>
+      writes.map((write) => ({ table: this.table(tableName), write })),
+    );
+    if (requests.length > 25) {
+      throw validationError("Too many items requested for the BatchWriteItem call");
+    }
+
+    const writes = requests.map(({ table, write }) => {
+      if (write.PutRequest) {
+        const item = this.toStored(table, write.PutRequest.Item);
+        return { table, id: this.toId(table, item), item };
+      }
+      return { table, id: this.toId(table, write.DeleteRequest?.Key), item: undefined };
+    });
+    if (new Set(writes.map(({ table, id }) => `${table.definition.tableName}/${id}`)).size !== writes.length) {
+      throw validationError("Provided list of item keys contains duplicates");
+    }
+
+    for (const { table, id, item } of writes) {
+      if (item) {
+        table.items.set(id, item);
+      } else {
+        table.items.delete(id);
+      }
+    }
+    return {
+      $metadata: {},
+      UnprocessedItems: {},
+      ConsumedCapacity: toCapacities(
+        writes.map(({ table }) => table),
+        input.ReturnConsumedCapacity,
+      ),
+    };
+  }
+
+  public override async transactGet(
+    input: TransactGetCommandInput,
+    options?: unknown,
+  ): Promise<TransactGetCommandOutput> {
+    throwIfAborted(options);
+    const gets = input.TransactItems ?? [];
+    if (gets.length > 100) {
+      throw validationError("Member must have length less than or equal to 100");
+    }
+
+    return {
+      $metadata: {},
+      Responses: gets.map(({ Get }) => {
+        const table = this.table(Get?.TableName);
+        const item = table.items.get(this.toId(table, Get?.Key));
+        return { Item: item && clone(project(item, Get?.ProjectionExpression, Get ?? {})) };
+      }),
+    };
+  }
+
+  /**
+   * Check every condition before writing anything, cancelling the whole transaction when any of them fails
+   */
+  public override async transactWrite(
+    input: TransactWriteCommandInput,
+    options?: unknown,
+  ): Promise<TransactWriteCommandOutput> {
+    throwIfAborted(options);
+    const operations = input.TransactItems ?? [];
+    if (operations.length > 100) {
+      throw validationError("Member must have length less than or equal to 100");
+    }
+
+    const writes = operations.map((operation) => {
+      const { Put, Update, Delete, ConditionCheck } = operation;
+      const request = Put ?? Update ?? Delete ?? ConditionCheck;
+      const table = this.table(request?.TableName);
+      const id = this.toId(table, Put ? Put.Item : (Update ?? Delete ?? ConditionCheck)?.Key);
+      const existing = table.items.get(id);
+      const passed = matches(existing, request?.ConditionExpression, request ?? {});
+
+      let item: Item | undefined | null = null;
+      if (passed && Put) {
+        item = this.toStored(table, Put.Item);
+      } else if (passed && Update) {
+        item = this.toUpdated(table, existing, Update);
+      } else if (passed && Delete) {
+        item = undefined;
+      }
+      return { table, id, passed, item };
+    });
+
+    if (new Set(writes.map(({ table, id }) => `${table.definition.tableName}/${id}`)).size !== writes.length) {
+      throw validationError("Transaction request cannot include multiple operations on one item");
+    }
+    if (writes.some(({ passed }) => !passed)) {
+      const reasons: CancellationReason[] = writes.map(({ passed }) =>
+        passed ? { Code: "None" } : { Code: "ConditionalCheckFailed", Message: "The conditional request failed" },
+      );
+      throw new TransactionCanceledException({
+        message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons
+          .map(({ Code }) => Code)
+          .join(", ")}]`,
+        CancellationReasons: reasons,
+        $metadata: {},
+      });
+    }
+
+    for (const { table, id, item } of writes) {
+      if (item) {
+        table.items.set(id, item);
+      } else if (item === undefined) {
+        table.items.delete(id);
+      }
+    }
+    return {
+      $metadata: {},
+      ConsumedCapacity: toCapacities(
+        writes.map(({ table }) => table),
+        input.ReturnConsumedCapacity,
+      ),
+    };
+  }
+
+  private table(tableName: string | undefined) {
+    const table = tableName ? this.tables.get(tableName) : undefined;
+    if (!table) {
+      throw new ResourceNotFoundException({ message: "Requested resource not found", $metadata: {} });
+    }
+    return table;
+  }
+
+  private view(
+    tableName: string | undefined,
+    indexName: string | undefined,
+    consistentRead: boolean | undefined,
+  ): View {
+    const table = this.table(tableName);
+    if (!indexName) {
+      return { table, key: table.definition.key };
+    }
+
+    const index: IndexDefinition | undefined = table.definition.indexes[indexName];
+    if (!index) {
+      throw validationError(`The table does not have the specified index: ${indexName}`);
+    }
+    if (consistentRead && !index.local) {
+      throw validationError("Consistent reads are not supported on global secondary indexes");
+    }
+    return { table, key: index, index };
+  }
+
+  /**
+   * The items in a table or index in key order, leaving out the items an index doesn't have keys for
+   */
+  private viewItems(view: View) {
+    const tableKey = view.table.definition.key;
+    const attributes = [...toAttributes(view.key), ...toAttributes(tableKey)];
+
+    return [...view.table.items.values()]
+      .filter((item) => toAttributes(view.key).every((name) => item[name] !== undefined))
+      .map((item) => (view.index ? projectIndex(item, view.index, tableKey) : item))
+      .sort((a, b) => compareKeys(a, b, attributes));
+  }
+
+  /**
+   * Read a page of up to Limit items after the ExclusiveStartKey, then filter and project them
+   */
+  private read(
+    view: View,
+    items: Item[],
+    input: QueryCommandInput | ScanCommandInput,
+    descending = false,
+  ): QueryCommandOutput {
+    const attributes = [...toAttributes(view.key), ...toAttributes(view.table.definition.key)];
+    const start = input.ExclusiveStartKey;
+    if (start && !attributes.every((name) => start[name] !== undefined)) {
+      throw validationError("The provided starting key is invalid: The provided key element does not match the schema");
+    }
+
+    const remaining = start
+      ? items.filter((item) => {
+          const order = compareKeys(item, start, attributes);
+          return descending ? order < 0 : order > 0;
+        })
+      : items;
+    const evaluated = input.Limit ? remaining.slice(0, input.Limit) : remaining;
+    const last = input.Limit && evaluated.length === input.Limit ? evaluated[evaluated.length - 1] : undefined;
+    const matched = evaluated.filter((item) => matches(item, input.FilterExpression, input));
+
+    return {
+      $metadata: {},
+      Items:
+        input.Select === "COUNT"
+          ? undefined
+          : matched.map((item) => clone(project(item, input.ProjectionExpression, input))),
+      Count: matched.length,
+      ScannedCount: evaluated.length,
+      LastEvaluatedKey: last && Object.fromEntries(attributes.map((name) => [name, last[name]])),
+      ConsumedCapacity: toCapacity(view.table, input.ReturnConsumedCapacity),
+    };
+  }
+
+  private check(item: Item | undefined, condition: string | undefined, input: ExpressionInput) {
+    if (!matches(item, condition, input)) {
+      throw new ConditionalCheckFailedException({ message: "The conditional request failed", $metadata: {} });
+    }
+  }
+
+  private toUpdated(table: MemoryTable, existing: Item | undefined, input: UpdateCommandInput) {
+    if (!input.UpdateExpression) {
+      return this.toStored(table, { ...existing, ...input.Key });
+    }
+    const updated = applyUpdate({ ...existing, ...input.Key }, input.UpdateExpression, input);
+    for (const name of toAttributes(table.definition.key)) {
+      if (updated[name] !== input.Key?.[name]) {
+        throw validationError(
+          `One or more parameter values were invalid: Cannot update attribute ${name}. This attribute is part of the key`,
+        );
+      }
+    }
+    return this.toStored(table, updated);
+  }
+
+  /**
+   * Check an item's key and index attributes before it's stored, and copy it so that it can't be changed afterwards
+   */
+  private toStored(table: MemoryTable, item: Item | undefined): Item {
+    if (!item) {
+      throw validationError("One or more parameter values were invalid: Missing the key in the item");
+    }
+    assertDefined(item);
+    this.toId(table, item);
+    for (const [name, type] of Object.entries(table.types)) {
+      if (item[name] !== undefined && !isType(item[name], type)) {
+        throw validationError(
+          `One or more parameter values were invalid: Type mismatch for Index Key ${name} Expected: ${type}`,
+        );
+      }
+    }
+    return clone(item);
+  }
+
+  /**
+   * Identify an item by its key, checking that the key has exactly the table's key attributes
+   */
+  private toId(table: MemoryTable, key: Item | undefined) {
+    const attributes = toAttributes(table.definition.key);
+    const values = attributes.map((name) => key?.[name]);
+    if (values.some((value, i) => value === undefined || value === "" || !isType(value, table.types[attributes[i]]))) {
+      throw validationError("The provided key element does not match the schema");
+    }
+    return JSON.stringify(values);
+  }
+}
+
+function assertKeyCondition(condition: ConditionNode, key: KeyDefinition) {
+  const conditions: ConditionNode[] = [];
+  const flatten = (node: ConditionNode) => {
+    if (node.type === "and") {
+      flatten(node.left);
+      flatten(node.right);
+    } else {
+      conditions.push(node);
+    }
+  };
+  flatten(condition);
+
+  const attribute = (node: ConditionNode) => {
+    if (
+      node.type === "compare" &&
+      node.comparator !== "<>" &&
+      node.left.type === "path" &&
+      node.right.type === "value"
+    ) {
+      return { name: node.left.path.join("."), equality: node.comparator === "=" };
+    }
+    if (node.type === "between" && node.operand.type === "path") {
+      return { name: node.operand.path.join("."), equality: false };
+    }
+    if (node.type === "begins_with") {
+      return { name: node.path.join("."), equality: false };
+    }
+    throw validationError("Invalid operator used in KeyConditionExpression");
+  };
+
+  const names = conditions.map(attribute);
+  if (!names.some(({ name, equality }) => name === key.partition && equality)) {
+    throw validationError(`Query condition missed key schema element: ${key.partition}`);
+  }
+  if (names.some(({ name }) => name !== key.partition && name !== key.sort) || names.length > (key.sort ? 2 : 1)) {
+    throw validationError("Query key condition not supported");
+  }
+}
+
+/**
+ * The attributes an index holds, the table's and index's keys only with KEYS_ONLY, plus the listed attributes
+ * with INCLUDE
+ */
+function projectIndex(item: Item, index: IndexDefinition, tableKey: KeyDefinition) {
+  const projection = index.projection ?? "ALL";
+  if (projection === "ALL") {
+    return item;
+  }
+  const names = [...toAttributes(tableKey), ...toAttributes(index), ...(projection === "KEYS_ONLY" ? [] : projection)];
+  return Object.fromEntries(names.filter((name) => item[name] !== undefined).map((name) => [name, item[name]]));
+}
+
+function toAttributes({ partition, sort }: KeyDefinition) {
+  return sort ? [partition, sort] : [partition];
+}
+
+function compareKeys(a: Item, b: Item, attributes: string[]) {
+  for (const name of attributes) {
+    const order = compare(a[name], b[name]) ?? 0;
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Spread items over the segments of a parallel scan by the hash of their partition key
+ */
+function toSegment(partition: unknown, totalSegments: number) {
+  return createHash("md5").update(String(partition)).digest().readUInt32BE(0) % totalSegments;
+}
+
+function isType(value: unknown, type: string) {
+  return type === "N"
+    ? typeof value === "number"
+    : type === "B"
+    ? value instanceof Uint8Array
+    : typeof value === "string";
+}
+
+/**
+ * DynamoDBDocument refuses undefined values unless it's configured to remove them, so refuse them here too
+ */
+function assertDefined(value: unknown) {
+  if (value === undefined) {
+    throw new Error("Pass options.removeUndefinedValues=true to remove undefined values from map/array/set.");
+  }
+  if (value instanceof Array || value instanceof Set) {
+    [...value].forEach(assertDefined);
+  } else if (typeof value === "object" && value !== null && !(value instanceof Uint8Array)) {
+    Object.values(value).forEach(assertDefined);
+  }
+}
+
+function toReturnValues(returnValues: string | undefined, existing: Item | undefined, updated: Item) {
+  switch (returnValues) {
+    case "ALL_NEW":
+      return clone(updated);
+    case "ALL_OLD":
+      return existing && clone(existing);
+    case "UPDATED_NEW":
+    case "UPDATED_OLD": {
+      const source = returnValues === "UPDATED_NEW" ? updated : existing ?? {};
+      const changed = Object.keys({ ...existing, ...updated }).filter(
+        (name) => JSON.stringify(existing?.[name]) !== JSON.stringify(updated[name]) && source[name] !== undefined,
+      );
+      return changed.length ? clone(Object.fromEntries(changed.map((name) => [name, source[name]]))) : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function toCapacity(table: MemoryTable, returnConsumedCapacity: ReturnConsumedCapacity | string | undefined) {
+  if (!returnConsumedCapacity || returnConsumedCapacity === "NONE") {
+    return undefined;
+  }
+  return {
+    TableName: table.definition.tableName,
+    CapacityUnits: 1,
+    ...(returnConsumedCapacity === "INDEXES" ? { Table: { CapacityUnits: 1 } } : {}),
+  } satisfies ConsumedCapacity;
+}
+
+function toCapacities(tables: MemoryTable[], returnConsumedCapacity: ReturnConsumedCapacity | string | undefined) {
+  const unique = [...new Set(tables)];
+  return returnConsumedCapacity && returnConsumedCapacity !== "NONE"
+    ? unique.map((table) => toCapacity(table, returnConsumedCapacity)!)
+    : undefined;
+}
+
+/**
+ * Fail like the SDK does when a request is aborted before it's sent
+ */
+function throwIfAborted(options: unknown) {
+  const signal = (options as { abortSignal?: AbortSignal } | undefined)?.abortSignal;
+  if (signal?.aborted) {
+    throw Object.assign(new Error("Request aborted"), { name: "AbortError" });
+  }
+}
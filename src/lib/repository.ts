@@ -1,84 +1,1667 @@
-import { DynamoDBDocument, TransactWriteCommandInput, paginateQuery, paginateScan } from "@aws-sdk/lib-dynamodb";
+import {
+  BatchWriteCommandInput,
+  DynamoDBDocument,
+  QueryCommandInput,
+  ScanCommandInput,
+  paginateQuery,
+  paginateScan,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  ConditionFailedError,
+  MigrationError,
+  NotFoundError,
+  RepositoryParseError,
+  RetriesExhaustedError,
+  VersionConflictError,
+} from "./errors";
+import { decodeCursor, encodeCursor } from "./cursor";
+import { TemplateFields, fillTemplate, toTemplateFields } from "./keys";
+import {
+  Condition,
+  Expression,
+  ExpressionAttributes,
+  Operator,
+  UpdateChanges,
+  toConditionExpression,
+  toFilterConditionExpression,
+  toKeyConditionExpression,
+  toUpdateExpression,
+} from "./expressions";
+import { assertFields, isOptionalField, parseFields, parseProjection } from "./schema";
+import { TableDefinition } from "./definition";
+import { Hooks, OperationContext, clientHooks } from "./hooks";
+import { backoff, chunk, mapConcurrently, mergeConcurrently } from "./retry";
+import { ConditionalCheckFailedException, ConsumedCapacity } from "@aws-sdk/client-dynamodb";
 import { z } from "zod";
-import { Expression, toFilterConditionExpression, toKeyConditionExpression } from "./expressions";
 
-type QueryParams = {
-  index?: string;
+type ScanParams = {
+  filter?: Condition;
 };
 
-export class NotFoundError extends Error {}
+type SelectParams<K extends string> = {
+  /**
+   * Only fetch these fields, validating each against its part of the schema. Projected items aren't migrated,
+   * as migrations expect whole items
+   */
+  select?: K[];
+};
+
+type QueryParams<I extends string = string> = ScanParams & {
+  index?: I;
+  /**
+   * Order of the items by sort key, defaults to "asc"
+   */
+  order?: "asc" | "desc";
+};
+
+type LimitParams = {
+  limit?: number;
+};
+
+type ParallelScanParams = {
+  /**
+   * How many segments to split the table into
+   */
+  segments: number;
+  /**
+   * How many segments to scan at once, defaults to 4
+   */
+  concurrency?: number;
+  /**
+   * Only scan these segments, e.g. to retry the segments of an earlier scan that didn't finish
+   */
+  only?: number[];
+  /**
+   * Where to resume each segment from, as saved from the `progress` of an earlier scan
+   */
+  resume?: Record<number, Key>;
+};
+
+type PageParams = {
+  limit: number;
+  cursor?: string;
+};
+
+/**
+ * Options for the request itself, taken by every read and write
+ */
+export type RequestOptions = {
+  /**
+   * Send the request to another table with the same layout, e.g. a table per tenant
+   */
+  tableName?: string;
+  /**
+   * Have DynamoDB report the capacity used by each request to onConsumedCapacity
+   */
+  returnConsumedCapacity?: "INDEXES" | "TOTAL";
+  onConsumedCapacity?: (capacity: ConsumedCapacity) => void;
+  /**
+   * Abort the request in flight, or stop an iterator before its next item
+   */
+  signal?: AbortSignal;
+};
+
+export type ReadOptions = RequestOptions & {
+  /**
+   * Read every write that succeeded before the read, which global secondary indexes don't support
+   */
+  consistentRead?: boolean;
+};
+
+export type WriteOptions = RequestOptions & {
+  condition?: Condition;
+  /**
+   * With versioning, the version the item was read with -- taken from the item itself by put() and replace()
+   */
+  version?: number;
+};
+
+type DeleteOptions = WriteOptions & {
+  throwIfNotFound?: boolean;
+};
+
+type BatchOptions = {
+  /**
+   * How many times to send a request while DynamoDB returns unprocessed items, defaults to 10
+   */
+  maxAttempts?: number;
+  /**
+   * How many batch write requests to have in flight at once, defaults to 4
+   */
+  concurrency?: number;
+};
+
+type BatchGetOptions = BatchOptions &
+  ReadOptions & {
+    throwIfNotFound?: boolean;
+  };
+
+export type Key = Record<string, string | number>;
+
+type Page = {
+  Items?: Record<string, any>[];
+  LastEvaluatedKey?: Record<string, any>;
+  ConsumedCapacity?: ConsumedCapacity;
+};
+
+type WriteRequest = NonNullable<BatchWriteCommandInput["RequestItems"]>[string][number];
+
+type KeyAttributes = {
+  partition: string;
+  sort?: string;
+};
+
+type Indexes = Record<string, KeyAttributes & { local?: boolean }>;
+
+type Templates = Record<string, string>;
+
+export type RepositoryOptions<
+  S extends string = string,
+  PK extends KeyAttributes = KeyAttributes,
+  IX extends Indexes = Indexes,
+  TP extends Templates = Templates,
+> = {
+  /**
+   * The table's key and indexes, in place of `key` and `indexes`, so that every query is checked against them
+   */
+  definition?: TableDefinition<PK, IX>;
+  /**
+   * The table's key attributes, defaults to pk and sk
+   */
+  key?: PK;
+  /**
+   * Key attributes of the table's indexes, so that queries on an index can be built from key templates.
+   * Local indexes are marked as such, as only they support consistent reads
+   */
+  indexes?: IX;
+  /**
+   * Templates to build key attributes, including those of indexes, from an item's fields
+   *
+   * { pk: "{postId}", sk: "comment#{commentId}" } lets get() and query() take { postId, commentId }
+   */
+  templates?: TP;
+  /**
+   * Secret used to sign the cursors returned by queryPage() and scanPage(), which require it. Every instance
+   * that resumes from a cursor must have the same secret
+   */
+  cursorSecret?: string;
+  /**
+   * Attribute to use for optimistic locking, incremented on every write, which fails with a
+   * VersionConflictError when the stored item has changed since it was read
+   *
+   * Declare it in the schema as z.number().optional() to have it typed on the items
+   */
+  version?: string;
+  /**
+   * Maintain createdAt and updatedAt attributes on every put() and update()
+   *
+   * As a put replaces the whole item, put(), replace() and batchPut() of an item without createdAt first make a
+   * consistent read of the stored createdAt to keep it, which doubles the read cost of those writes
+   */
+  timestamps?: boolean | TimestampOptions;
+  /**
+   * Record the schema version on every put() and upgrade items written with earlier versions as they're read
+   */
+  schemaVersion?: SchemaVersionOptions;
+  /**
+   * Attributes that only exist in the table, like keys and index attributes, which are left out of the items
+   * the repository returns -- use getRaw() for the item as it's stored
+   */
+  storageAttributes?: S[];
+  /**
+   * What query() and scan() do with items that fail to migrate or parse: throw (the default), skip them,
+   * or skip and collect them in the iterator's `invalid` list
+   */
+  onReadError?: "throw" | "skip" | "collect";
+  /**
+   * Hooks around this repository's operations, which run after those registered for its client with useHooks()
+   */
+  hooks?: Hooks[];
+};
+
+/**
+ * An item that failed to migrate or parse while reading with onReadError "collect"
+ */
+export type InvalidItem = {
+  item: Record<string, any>;
+  error: RepositoryParseError | MigrationError;
+};
+
+export type TimestampOptions = {
+  /**
+   * Attribute set on the first write only, defaults to "createdAt", or false to leave it out
+   */
+  createdAt?: string | false;
+  /**
+   * Attribute set on every write, defaults to "updatedAt", or false to leave it out
+   */
+  updatedAt?: string | false;
+  /**
+   * Store timestamps as ISO 8601 strings (the default) or as epoch milliseconds
+   */
+  format?: "iso" | "epoch";
+  /**
+   * Where the current time comes from, so that tests can fix it
+   */
+  clock?: () => Date;
+};
+
+/**
+ * The fields of an item that can be selected, and the item narrowed to the selected fields
+ */
+type Field<T extends z.ZodTypeAny, S extends string> = keyof DomainItem<T, S> & string;
+export type Projected<T extends z.ZodTypeAny, S extends string, K extends string> = [K] extends [never]
+  ? DomainItem<T, S>
+  : Pick<DomainItem<T, S>, K & keyof DomainItem<T, S>>;
+
+/**
+ * Upgrade an item from one schema version to the next, before it's validated through the schema
+ */
+export type Migration = (item: Record<string, any>) => Record<string, any>;
+
+export type SchemaVersionOptions = {
+  /**
+   * Attribute holding the schema version an item was written with, defaults to "schemaVersion"
+   */
+  attribute?: string;
+  /**
+   * Migrations from version 1 onwards, so the current version is one more than the number of migrations.
+   * Items without a schema version are taken to be version 1
+   */
+  migrations: Migration[];
+  /**
+   * Put upgraded items back into the table as they're read, defaults to false
+   */
+  writeBack?: boolean;
+};
+
+/**
+ * An item as the repository returns it, without its storage-only attributes
+ */
+export type DomainItem<T extends z.ZodTypeAny, S extends string = never> = [S] extends [never]
+  ? z.output<T>
+  : Omit<z.output<T>, S>;
+
+/**
+ * The value of a key field, or any key value for attributes the schema doesn't have, like keys built from templates
+ */
+type KeyValue<Item, F> = F extends keyof Item ? Exclude<Item[F], undefined> : string | number;
+
+/**
+ * A key attribute given as it is, or as the fields of its key template
+ */
+type AttributeKey<Item, TP, A extends string> =
+  | { [N in A]: KeyValue<Item, N> }
+  | (A extends keyof TP ? { [F in TemplateFields<TP[A] & string>]: KeyValue<Item, F> } : never);
+
+/**
+ * A condition on a sort key, or the leading fields of its key template
+ */
+type SortCondition<Item, TP, A extends string> =
+  | { [N in A]?: SortExpression<KeyValue<Item, N>> }
+  | (A extends keyof TP ? { [F in TemplateFields<TP[A] & string>]?: KeyValue<Item, F> } : never);
+
+/**
+ * Range conditions on a sort key, with begins_with only for string keys
+ */
+export type SortExpression<V> =
+  | V
+  | [Exclude<Operator, "begins_with">, V]
+  | ["between", V, V]
+  | (V extends string ? ["begins_with", string] : never);
+
+/**
+ * The key of an item, typed from the schema when the key attributes are declared
+ *
+ * { partition: "pk", sort: "sk" } => { pk: string; sk: string }
+ */
+export type ItemKey<Item, PK extends KeyAttributes, TP> = string extends PK["partition"]
+  ? Key
+  : AttributeKey<Item, TP, PK["partition"]> &
+      (PK extends { sort: infer A extends string } ? AttributeKey<Item, TP, A> : unknown);
+
+/**
+ * The keys of a query, an equality on the partition key and optionally a condition on the sort key, or any of
+ * the schema's fields when the key attributes aren't known
+ */
+export type QueryKeys<Item, K extends KeyAttributes, TP> = string extends K["partition"]
+  ? { [F in keyof Item & string]?: Expression }
+  : AttributeKey<Item, TP, K["partition"]> &
+      (K extends { sort: infer A extends string } ? SortCondition<Item, TP, A> : unknown);
+
+/**
+ * The key attributes of the table, or of an index when one is named
+ */
+type IndexKey<PK extends KeyAttributes, IX extends Indexes, N> = [N] extends [never] ? PK : IX[N & keyof IX];
+
+export class Repository<
+  T extends z.ZodTypeAny,
+  S extends string = never,
+  const PK extends KeyAttributes = { partition: "pk"; sort: "sk" },
+  const IX extends Indexes = Indexes,
+  const TP extends Templates = {},
+> {
+  protected readonly options: RepositoryOptions<S>;
 
-export class Repository<T extends z.ZodTypeAny> {
   constructor(
     public dynamodb: DynamoDBDocument,
     public readonly tableName: string,
     protected readonly schema: T,
-  ) {}
+    options: RepositoryOptions<S, PK, IX, TP> = {},
+  ) {
+    this.options = options;
+  }
 
-  private parse(data: z.input<T>): z.output<T> {
-    return this.schema.parse(data);
+  protected get keyAttributes() {
+    const { partition, sort } = this.options.definition?.key ?? this.options.key ?? { partition: "pk", sort: "sk" };
+    return sort ? [partition, sort] : [partition];
   }
 
-  public async put(data: z.input<T>) {
-    const parsed = this.parse(data);
+  /**
+   * Pick the key attributes from an item, or build them from its fields with the key templates
+   */
+  public toKey(item: Record<string, any>): Key {
+    return Object.fromEntries(
+      this.keyAttributes
+        .map((name) => [name, item[name] ?? this.fromTemplate(name, item)])
+        .filter(([, value]) => value !== undefined),
+    );
+  }
 
-    await this.dynamodb.put({
-      Item: parsed,
-      TableName: this.tableName,
+  private toKeyId(item: Record<string, any>) {
+    return JSON.stringify(Object.values(this.toKey(item)));
+  }
+
+  private fromTemplate(attribute: string, fields: Record<string, any>) {
+    const template = this.options.templates?.[attribute];
+    if (!template) {
+      return undefined;
+    }
+
+    const { value, complete } = fillTemplate(template, fields);
+    if (!complete) {
+      throw new Error(
+        `Missing fields for key template ${attribute} = "${template}" in ${this.tableName}, got ${JSON.stringify(
+          Object.keys(fields),
+        )}`,
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Build every templated attribute on an item before it's written, leaving out index attributes
+   * whose fields are missing so that the item stays out of a sparse index
+   */
+  private withKeys(item: z.output<T>): z.output<T> {
+    const templates = Object.entries(this.options.templates ?? {});
+    if (!templates.length) {
+      return item;
+    }
+
+    const keys = templates.flatMap(([attribute, template]) => {
+      if (this.keyAttributes.includes(attribute)) {
+        return [[attribute, this.fromTemplate(attribute, item)]];
+      }
+      const { value, complete } = fillTemplate(template, item);
+      return complete ? [[attribute, value]] : [];
     });
+    return { ...item, ...Object.fromEntries(keys) };
+  }
+
+  /**
+   * Build the key condition for a query from the key templates, using begins_with when only the
+   * leading fields of the sort key template are given
+   *
+   * { postId: "1" } => { pk: "1", sk: ["begins_with", "comment#"] }
+   */
+  private toKeyConditions(keys: Record<string, Expression>, index?: string): Record<string, Expression> {
+    const templates = this.options.templates ?? {};
+    const { partition, sort } = index
+      ? this.toIndexKeys(index) ?? { partition: undefined }
+      : { partition: this.keyAttributes[0], sort: this.keyAttributes[1] };
+    if (!partition || !Object.keys(templates).length) {
+      return keys;
+    }
+
+    const fields = new Set(Object.values(templates).flatMap(toTemplateFields));
+    const conditions = Object.fromEntries(
+      Object.entries(keys).filter(([name]) => !fields.has(name) || name === partition || name === sort),
+    );
 
+    if (!(partition in conditions) && templates[partition]) {
+      conditions[partition] = this.fromTemplate(partition, keys)!;
+    }
+    if (sort && !(sort in conditions) && templates[sort]) {
+      const { value, complete } = fillTemplate(templates[sort], keys);
+      if (complete) {
+        conditions[sort] = value;
+      } else if (value) {
+        conditions[sort] = ["begins_with", value];
+      }
+    }
+    return conditions;
+  }
+
+  /**
+   * The attributes of a LastEvaluatedKey: the table's key, plus the index's key when querying an index
+   */
+  private toCursorKeyAttributes(index?: string) {
+    const { partition, sort } = (index && this.toIndexKeys(index)) || {};
+    return [...new Set([...this.keyAttributes, ...(partition ? [partition] : []), ...(sort ? [sort] : [])])];
+  }
+
+  /**
+   * The key attributes of an index, from the table definition when there is one
+   */
+  private toIndexKeys(index: string): (KeyAttributes & { local?: boolean }) | undefined {
+    return this.options.definition ? this.options.definition.toKeyAttributes(index) : this.options.indexes?.[index];
+  }
+
+  /**
+   * With a table definition, check that a query's key conditions are an equality on the partition key of the
+   * table or index and at most a condition on its sort key
+   */
+  private assertKeyConditions(conditions: Record<string, Expression>, index?: string) {
+    if (!this.options.definition) {
+      return;
+    }
+
+    const { partition, sort } = this.options.definition.toKeyAttributes(index);
+    const unexpected = Object.keys(conditions).filter((name) => name !== partition && name !== sort);
+    if (!(partition in conditions) || conditions[partition] instanceof Array || unexpected.length) {
+      throw new Error(
+        `Keys ${JSON.stringify(conditions)} don't match ${index ? `index ${index}` : "the key"} of ${
+          this.tableName
+        }, which is queried by ${partition}${sort ? ` and ${sort}` : ""}`,
+      );
+    }
+  }
+
+  private get timestamps() {
+    const timestamps = this.options.timestamps;
+    if (!timestamps) {
+      return undefined;
+    }
+
+    const {
+      createdAt = "createdAt",
+      updatedAt = "updatedAt",
+      format = "iso",
+      clock = () => new Date(),
+    } = timestamps === true ? {} : timestamps;
+    return {
+      createdAt: createdAt || undefined,
+      updatedAt: updatedAt || undefined,
+      now: () => (format === "epoch" ? clock().getTime() : clock().toISOString()),
+    };
+  }
+
+  /**
+   * Attributes maintained by the repository rather than the schema, i.e. the version and timestamps
+   */
+  private get managedAttributes() {
+    return [
+      this.options.version,
+      this.timestamps?.createdAt,
+      this.timestamps?.updatedAt,
+      this.options.schemaVersion && this.schemaVersionAttribute,
+    ].filter((name): name is string => !!name);
+  }
+
+  private get schemaVersionAttribute() {
+    return this.options.schemaVersion?.attribute ?? "schemaVersion";
+  }
+
+  private get currentSchemaVersion() {
+    return (this.options.schemaVersion?.migrations.length ?? 0) + 1;
+  }
+
+  /**
+   * Validate an item read from the table into the item the repository returns
+   */
+  public parse(data: z.input<T>): DomainItem<T, S> {
+    return this.toDomain(this.validateStored(data, () => this.validate(this.migrate(data))));
+  }
+
+  /**
+   * Parse an item read from the table, putting it back when it had to be upgraded and write back is enabled
+   */
+  private async read(
+    item: Record<string, any>,
+    params?: SelectParams<string> & RequestOptions,
+  ): Promise<DomainItem<T, S>> {
+    const select = params?.select;
+    if (select) {
+      return this.validateStored(item, () => parseProjection(this.schema, item, select) as DomainItem<T, S>);
+    }
+
+    const migrated = this.migrate(item);
+    const validated = this.validateStored(item, () => this.validate(migrated));
+    if (migrated !== item && this.options.schemaVersion?.writeBack) {
+      await this.writeBack(item, validated, params);
+    }
+    return this.toDomain(validated);
+  }
+
+  /**
+   * Validate an item read from the table, reporting which item failed
+   */
+  private validateStored<R>(item: Record<string, any>, validate: () => R): R {
+    try {
+      return validate();
+    } catch (e) {
+      if (e instanceof z.ZodError) {
+        const key = this.toKey(item);
+        throw new RepositoryParseError(
+          `Invalid item in ${this.tableName} for keys ${JSON.stringify(key)}: ${e.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join(", ")}`,
+          this.tableName,
+          key,
+          e.issues,
+          { cause: e },
+        );
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Read an item following the onReadError policy, returning undefined for invalid items that aren't thrown
+   */
+  private async tryRead(
+    item: Record<string, any>,
+    invalid: InvalidItem[],
+    params?: SelectParams<string> & RequestOptions,
+  ): Promise<DomainItem<T, S> | undefined> {
+    try {
+      return await this.read(item, params);
+    } catch (e) {
+      const policy = this.options.onReadError ?? "throw";
+      if (policy === "throw" || !(e instanceof RepositoryParseError || e instanceof MigrationError)) {
+        throw e;
+      }
+      if (policy === "collect") {
+        invalid.push({ item, error: e });
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply every migration from the item's schema version up to the current one
+   */
+  private migrate(item: Record<string, any>): Record<string, any> {
+    const options = this.options.schemaVersion;
+    const attribute = this.schemaVersionAttribute;
+    const from: number = item?.[attribute] ?? 1;
+    if (!options || from >= this.currentSchemaVersion) {
+      return item;
+    }
+
+    let migrated = item;
+    for (let version = from; version < this.currentSchemaVersion; version++) {
+      try {
+        migrated = options.migrations[version - 1](migrated);
+      } catch (e) {
+        const key = this.toKey(item);
+        throw new MigrationError(
+          `Migrating item in ${this.tableName} for keys ${JSON.stringify(key)} from schema version ${version} failed`,
+          key,
+          version,
+          { cause: e },
+        );
+      }
+    }
+    return { ...migrated, [attribute]: this.currentSchemaVersion };
+  }
+
+  /**
+   * Put an upgraded and validated item, unless it has been written since it was read. It keeps the version and
+   * timestamps it was read with, as reading it doesn't change it for the caller
+   */
+  private async writeBack(item: Record<string, any>, validated: z.output<T>, options?: RequestOptions) {
+    const attribute = this.schemaVersionAttribute;
+    const attributes = new ExpressionAttributes();
+    const { expression } = toConditionExpression(
+      { [attribute]: item[attribute] ?? ["attribute_not_exists"] },
+      attributes,
+    );
+
+    try {
+      const request = {
+        TableName: this.table(options),
+        Item: this.withKeys(validated),
+        ConditionExpression: expression,
+        ...attributes.toInput(),
+      };
+      await this.send((input, http) => this.dynamodb.put(input, http), request, options);
+    } catch (e) {
+      if (!(e instanceof ConditionalCheckFailedException)) {
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Validate an item through the schema, carrying over the version and timestamp attributes when enabled
+   */
+  private validate(data: z.input<T>): z.output<T> {
+    return this.carryOver(data, this.schema.parse(data));
+  }
+
+  private toDomain(item: z.output<T>): DomainItem<T, S> {
+    const storage = this.options.storageAttributes;
+    if (!storage?.length) {
+      return item;
+    }
+    return Object.fromEntries(Object.entries(item).filter(([name]) => !storage.includes(name as S))) as DomainItem<
+      T,
+      S
+    >;
+  }
+
+  private carryOver(data: z.input<T>, parsed: z.output<T>): z.output<T> {
+    const managed = this.managedAttributes.filter((name) => data?.[name] !== undefined);
+    if (managed.length) {
+      return { ...parsed, ...Object.fromEntries(managed.map((name) => [name, data[name]])) };
+    }
     return parsed;
   }
 
-  public async get(key: Record<string, string | number>) {
-    const { Item } = await this.dynamodb.get({
-      TableName: this.tableName,
-      Key: key,
+  /**
+   * Add the attributes the repository maintains to a validated item before it's written
+   */
+  private toStoredItem(item: z.output<T>): z.output<T> {
+    const stored = this.withTimestamps(this.withKeys(item));
+    if (this.options.schemaVersion) {
+      return { ...stored, [this.schemaVersionAttribute]: this.currentSchemaVersion };
+    }
+    return stored;
+  }
+
+  /**
+   * Set updatedAt to now, and createdAt too unless the item already has it from when it was read
+   */
+  private withTimestamps(item: z.output<T>): z.output<T> {
+    const timestamps = this.timestamps;
+    if (!timestamps) {
+      return item;
+    }
+
+    const now = timestamps.now();
+    return {
+      ...item,
+      ...(timestamps.createdAt && { [timestamps.createdAt]: item[timestamps.createdAt] ?? now }),
+      ...(timestamps.updatedAt && { [timestamps.updatedAt]: now }),
+    };
+  }
+
+  /**
+   * Translate a failed ConditionExpression into our own error, leaving any other errors as they are
+   */
+  private async checkCondition<R>(request: Promise<R>, toError: (cause: Error) => Error | Promise<Error>): Promise<R> {
+    try {
+      return await request;
+    } catch (e) {
+      if (e instanceof ConditionalCheckFailedException) {
+        throw await toError(e);
+      }
+      throw e;
+    }
+  }
+
+  private get hooks() {
+    return [...clientHooks(this.dynamodb), ...(this.options.hooks ?? [])];
+  }
+
+  /**
+   * Run the before hooks, each getting the context as the previous one left it, shared with transactions
+   */
+  public async before(context: OperationContext): Promise<OperationContext> {
+    for (const { before } of this.hooks) {
+      context = (await before?.(context)) ?? context;
+    }
+    return context;
+  }
+
+  /**
+   * Run the after hooks in reverse, so that the first hook to see the request is the last to see the result, shared
+   * with transactions
+   */
+  public async after<R>(context: OperationContext, item: R): Promise<R> {
+    for (const { after } of [...this.hooks].reverse()) {
+      item = ((await after?.(context, item as Record<string, any> | undefined)) ?? item) as R;
+    }
+    return item;
+  }
+
+  private table(options?: RequestOptions) {
+    return options?.tableName ?? this.tableName;
+  }
+
+  /**
+   * Send a request with the per-call options, reporting the capacity it consumed
+   */
+  private async send<I, O extends { ConsumedCapacity?: ConsumedCapacity | ConsumedCapacity[] }>(
+    request: (input: I, http: { abortSignal?: AbortSignal }) => Promise<O>,
+    input: I,
+    options?: RequestOptions,
+  ) {
+    options?.signal?.throwIfAborted();
+    const output = await request(
+      { ...input, ReturnConsumedCapacity: options?.returnConsumedCapacity },
+      { abortSignal: options?.signal },
+    );
+    this.reportCapacity(output, options);
+    return output;
+  }
+
+  private reportCapacity(
+    output: { ConsumedCapacity?: ConsumedCapacity | ConsumedCapacity[] },
+    options?: RequestOptions,
+  ) {
+    for (const capacity of [output.ConsumedCapacity ?? []].flat()) {
+      options?.onConsumedCapacity?.(capacity);
+    }
+  }
+
+  private expectedVersion(data: Record<string, any> | undefined, options?: WriteOptions): number | undefined {
+    return this.options.version ? options?.version ?? data?.[this.options.version] : undefined;
+  }
+
+  /**
+   * With versioning, look up the stored version to tell a version conflict apart from any other failed condition
+   */
+  private async versionConflict(
+    key: Key,
+    expected: number | undefined,
+    cause: Error,
+    fallback: () => Error,
+    options?: RequestOptions,
+  ) {
+    if (!this.options.version) {
+      return fallback();
+    }
+
+    const { Item } = await this.send(
+      (input, http) => this.dynamodb.get(input, http),
+      { TableName: this.table(options), Key: key, ConsistentRead: true },
+      options,
+    );
+    const actual = Item?.[this.options.version];
+    if (Item && actual !== expected) {
+      return new VersionConflictError(
+        `Version conflict for item in ${this.tableName} for keys ${JSON.stringify(
+          key,
+        )}, expected ${expected} but found ${actual}`,
+        expected,
+        actual,
+        { cause },
+      );
+    }
+    return fallback();
+  }
+
+  private notFound(key: Record<string, any>, cause?: Error) {
+    return new NotFoundError(`Item not found in ${this.tableName} for keys ${JSON.stringify(key)}`, { cause });
+  }
+
+  private conditionFailed(key: Record<string, any>, cause: Error) {
+    return new ConditionFailedError(`Condition failed for item in ${this.tableName} for keys ${JSON.stringify(key)}`, {
+      cause,
     });
+  }
 
-    if (!Item) {
-      throw new NotFoundError(`Item not found in ${this.tableName} for keys ${JSON.stringify(key)}`);
+  public async put(input: z.input<T>, options?: WriteOptions) {
+    const context = await this.before({ operation: "put", tableName: this.table(options), item: input });
+    const data = context.item as z.input<T>;
+    const request = await this.toPutRequestKeepingCreatedAt(data, options, "put");
+    const key = this.toKey(request.Item);
+
+    await this.checkCondition(
+      this.send((input, http) => this.dynamodb.put(input, http), request, options),
+      (e) =>
+        this.versionConflict(key, this.expectedVersion(data, options), e, () => this.conditionFailed(key, e), options),
+    );
+
+    return this.after(context, this.toDomain(request.Item));
+  }
+
+  /**
+   * Put an item only if no item exists with the same key
+   */
+  public async create(input: z.input<T>, options?: RequestOptions) {
+    const context = await this.before({ operation: "create", tableName: this.table(options), item: input });
+    const request = this.toPutRequest(context.item as z.input<T>, options, "create");
+    const key = this.toKey(request.Item);
+
+    await this.checkCondition(
+      this.send((input, http) => this.dynamodb.put(input, http), request, options),
+      (e) =>
+        new ConditionFailedError(`Item already exists in ${this.tableName} for keys ${JSON.stringify(key)}`, {
+          cause: e,
+        }),
+    );
+
+    return this.after(context, this.toDomain(request.Item));
+  }
+
+  /**
+   * Put an item only if an item already exists with the same key
+   */
+  public async replace(input: z.input<T>, options?: WriteOptions) {
+    const context = await this.before({ operation: "replace", tableName: this.table(options), item: input });
+    const data = context.item as z.input<T>;
+    const request = await this.toPutRequestKeepingCreatedAt(data, options, "replace");
+    const key = this.toKey(request.Item);
+
+    await this.checkCondition(
+      this.send((input, http) => this.dynamodb.put(input, http), request, options),
+      (e) =>
+        this.versionConflict(
+          key,
+          this.expectedVersion(data, options),
+          e,
+          () => (options?.condition ? this.conditionFailed(key, e) : this.notFound(key, e)),
+          options,
+        ),
+    );
+
+    return this.after(context, this.toDomain(request.Item));
+  }
+
+  /**
+   * Build the request for put() or replace(). With timestamps, createdAt is taken from the stored item when the data
+   * doesn't have it, as a put replaces the whole item, adding the condition that the stored item still has it
+   */
+  private async toPutRequestKeepingCreatedAt(
+    data: z.input<T>,
+    options: WriteOptions | undefined,
+    mode: "put" | "replace",
+  ) {
+    const request = this.toPutRequest(data, options, mode);
+    const createdAt = this.timestamps?.createdAt;
+    if (!createdAt || data?.[createdAt] !== undefined) {
+      return request;
+    }
+
+    const attributes = new ExpressionAttributes();
+    const { Item } = await this.send(
+      (input, http) => this.dynamodb.get(input, http),
+      {
+        TableName: this.table(options),
+        Key: this.toKey(request.Item),
+        ConsistentRead: true,
+        ProjectionExpression: this.toProjection([createdAt], attributes),
+        ...attributes.toInput(),
+      },
+      options,
+    );
+    const stored = Item?.[createdAt];
+    if (stored === undefined) {
+      return request;
+    }
+
+    const unchanged: Condition = { [createdAt]: stored };
+    return this.toPutRequest(
+      { ...data, [createdAt]: stored },
+      { ...options, condition: options?.condition ? ["and", options.condition, unchanged] : unchanged },
+      mode,
+    );
+  }
+
+  public async update(key: ItemKey<z.output<T>, PK, TP>, changes: UpdateChanges<z.output<T>>, options?: WriteOptions) {
+    const context = await this.before({ operation: "update", tableName: this.table(options), key, changes });
+    const request = this.toUpdateRequest(context.key as Key, context.changes as UpdateChanges<z.output<T>>, options);
+    const { Attributes } = await this.checkCondition(
+      this.send((input, http) => this.dynamodb.update(input, http), { ...request, ReturnValues: "ALL_NEW" }, options),
+      (e) =>
+        this.versionConflict(
+          request.Key,
+          options?.version,
+          e,
+          () => (options?.condition ? this.conditionFailed(request.Key, e) : this.notFound(request.Key, e)),
+          options,
+        ),
+    );
+
+    return this.after(context, this.parse(Attributes));
+  }
+
+  /**
+   * Build the request to put an item validated through the schema, shared with transactions
+   *
+   * "create" and "replace" additionally require that the item does or doesn't already exist. With versioning,
+   * the item must still have the version it was read with, or not exist yet if it has no version. With timestamps,
+   * createdAt is kept from the data, which put() and replace() fill in from the stored item, so a transaction
+   * needs the item as it was read to keep it
+   */
+  public toPutRequest(data: z.input<T>, options?: WriteOptions, mode: "put" | "create" | "replace" = "put") {
+    let parsed: z.output<T> = this.toStoredItem(this.validate(data));
+    const attributes = new ExpressionAttributes();
+    const notExists: Condition = { [this.keyAttributes[0]]: ["attribute_not_exists"] };
+    const required: Record<typeof mode, Condition[]> = {
+      put: [],
+      create: [notExists],
+      replace: [{ [this.keyAttributes[0]]: ["attribute_exists"] }],
+    };
+
+    const version = this.options.version;
+    if (version) {
+      const expected = this.expectedVersion(data, options);
+      parsed = { ...parsed, [version]: mode === "create" ? 1 : (expected ?? 0) + 1 };
+      if (mode !== "create") {
+        required[mode].push(expected === undefined ? notExists : { [version]: expected });
+      }
+    }
+
+    const { expression } = toConditionExpression(options?.condition, attributes, ...required[mode]);
+
+    return {
+      TableName: this.table(options),
+      Item: parsed,
+      ConditionExpression: expression,
+      ...attributes.toInput(),
+    };
+  }
+
+  /**
+   * Build the request to update an existing item with changes validated through the schema, shared with transactions
+   *
+   * With timestamps, updatedAt is always set while createdAt is only set if the item doesn't have it yet
+   */
+  public toUpdateRequest(fields: Key, changes: UpdateChanges<z.output<T>>, options?: WriteOptions) {
+    const key = this.toKey(fields);
+    const validated = this.validateChanges(changes);
+    const required = Object.keys(key).map((name): Condition => ({ [name]: ["attribute_exists"] }));
+
+    const timestamps = this.timestamps;
+    if (timestamps) {
+      const now = timestamps.now();
+      if (timestamps.updatedAt) {
+        validated.set = { ...validated.set, [timestamps.updatedAt]: now };
+      }
+      if (timestamps.createdAt) {
+        validated.setIfNotExists = { ...validated.setIfNotExists, [timestamps.createdAt]: now };
+      }
+    }
+
+    const version = this.options.version;
+    if (version) {
+      validated.add = { ...validated.add, [version]: 1 } as Record<string, number>;
+      if (options?.version !== undefined) {
+        required.push({ [version]: options.version });
+      }
+    }
+
+    const attributes = new ExpressionAttributes();
+    const update = toUpdateExpression(validated, attributes);
+    const condition = toConditionExpression(options?.condition, attributes, ...required);
+
+    return {
+      TableName: this.table(options),
+      Key: key,
+      UpdateExpression: update.expression,
+      ConditionExpression: condition.expression,
+      ...attributes.toInput(),
+    };
+  }
+
+  /**
+   * Build the request to delete an item, shared with transactions
+   */
+  public toDeleteRequest(fields: Key, options?: WriteOptions) {
+    const key = this.toKey(fields);
+    const attributes = new ExpressionAttributes();
+    const version = this.options.version;
+    const required: Condition[] = version && options?.version !== undefined ? [{ [version]: options.version }] : [];
+    const { expression } = toConditionExpression(options?.condition, attributes, ...required);
+
+    return {
+      TableName: this.table(options),
+      Key: key,
+      ConditionExpression: expression,
+      ...attributes.toInput(),
+    };
+  }
+
+  /**
+   * Build the request to check a condition against an item without writing it, only used in transactions
+   */
+  public toConditionCheckRequest(fields: Key, condition: Condition, options?: RequestOptions) {
+    const key = this.toKey(fields);
+    const attributes = new ExpressionAttributes();
+    const { expression } = toConditionExpression(condition, attributes);
+
+    return {
+      TableName: this.table(options),
+      Key: key,
+      ConditionExpression: expression!,
+      ...attributes.toInput(),
+    };
+  }
+
+  private validateChanges(changes: UpdateChanges<z.output<T>>): UpdateChanges<Record<string, any>> {
+    assertFields(this.schema, [...(changes.remove ?? []), ...Object.keys(changes.add ?? {})] as string[]);
+    for (const field of (changes.remove ?? []) as string[]) {
+      if (!isOptionalField(this.schema, field)) {
+        throw new Error(`Cannot remove required field ${field} from items in ${this.tableName}`);
+      }
+    }
+
+    return {
+      remove: changes.remove as string[] | undefined,
+      add: changes.add,
+      set: changes.set && parseFields(this.schema, changes.set),
+      setIfNotExists: changes.setIfNotExists && parseFields(this.schema, changes.setIfNotExists),
+      append: changes.append && (parseFields(this.schema, changes.append) as Record<string, unknown[]>),
+    };
+  }
+
+  public async delete(key: ItemKey<z.output<T>, PK, TP>, options?: DeleteOptions) {
+    const context = await this.before({ operation: "delete", tableName: this.table(options), key });
+    const request = this.toDeleteRequest(context.key as Key, options);
+    const { Attributes } = await this.checkCondition(
+      this.send((input, http) => this.dynamodb.delete(input, http), { ...request, ReturnValues: "ALL_OLD" }, options),
+      (e) =>
+        this.versionConflict(request.Key, options?.version, e, () => this.conditionFailed(request.Key, e), options),
+    );
+
+    if (!Attributes) {
+      if (options?.throwIfNotFound) {
+        throw this.notFound(request.Key);
+      }
+      return this.after(context, undefined);
     }
 
-    return this.parse(Item);
+    return this.after(context, this.parse(Attributes));
   }
 
-  public async *scan() {
-    const paginator = paginateScan(
+  /**
+   * Delete every item matched by a query, returning the number of items deleted
+   */
+  public async deleteMany<N extends keyof IX & string = never>(
+    keys: QueryKeys<z.output<T>, IndexKey<PK, IX, N>, TP>,
+    params?: QueryParams<N>,
+    options?: BatchOptions & RequestOptions,
+  ) {
+    const context = await this.before({ operation: "deleteMany", tableName: this.table(options), key: keys });
+    const paginator = paginateQuery(
       {
         client: this.dynamodb,
       },
+      this.toQueryInput(context.key!, { ...params, ...options, select: this.keyAttributes }),
+    );
+
+    let deleted = 0;
+    for await (const page of this.paginate(paginator, options)) {
+      const { count } = await this.batchDelete(
+        (page.Items ?? []).map((item) => this.toKey(item)),
+        options,
+      );
+      deleted += count;
+    }
+
+    await this.after(context, undefined);
+    return deleted;
+  }
+
+  /**
+   * Validate and put many items, in chunks of 25 written concurrently
+   *
+   * With versioning, each item is written at the next version like put(), starting at 1, but without checking the
+   * stored version as batch writes can't have conditions
+   */
+  public async batchPut(input: z.input<T>[], options?: BatchOptions & RequestOptions) {
+    const tableName = this.table(options);
+    const contexts: OperationContext[] = [];
+    for (const item of input) {
+      contexts.push(await this.before({ operation: "batchPut", tableName, item }));
+    }
+    const data = contexts.map(({ item }) => item as z.input<T>);
+    const results = data.map((item) => this.schema.safeParse(item));
+    const issues = results.flatMap((result, index) =>
+      result.success ? [] : result.error.issues.map((issue) => ({ ...issue, path: [index, ...issue.path] })),
+    );
+    if (issues.length) {
+      throw new z.ZodError(issues);
+    }
+
+    const version = this.options.version;
+    const items = await this.withStoredCreatedAts(
+      data,
+      results.map((result, index) => {
+        const item = this.toStoredItem(this.carryOver(data[index], (result as z.SafeParseSuccess<z.output<T>>).data));
+        return version ? { ...item, [version]: (this.expectedVersion(data[index]) ?? 0) + 1 } : item;
+      }),
+      options,
+    );
+    const latest = new Map(items.map((item) => [this.toKeyId(item), item]));
+    await this.batchWrite(
+      [...latest.values()].map((item) => ({ PutRequest: { Item: item } })),
+      options,
+    );
+
+    const written: DomainItem<T, S>[] = [];
+    for (const [index, item] of items.entries()) {
+      written.push(await this.after(contexts[index], this.toDomain(item)));
+    }
+    return {
+      items: written,
+      count: latest.size,
+    };
+  }
+
+  /**
+   * With timestamps, take createdAt from the stored items for the data that doesn't have it. Unlike put(), the
+   * batch write can't check that they still have it
+   */
+  private async withStoredCreatedAts(
+    data: z.input<T>[],
+    items: z.output<T>[],
+    options?: BatchOptions & RequestOptions,
+  ) {
+    const createdAt = this.timestamps?.createdAt;
+    const missing = createdAt ? items.filter((_, index) => data[index]?.[createdAt] === undefined) : [];
+    if (!createdAt || !missing.length) {
+      return items;
+    }
+
+    const stored = await this.batchGetStored(
+      missing.map((item) => this.toKey(item)),
+      { ...options, consistentRead: true, select: [...this.keyAttributes, createdAt] },
+    );
+    return items.map((item, index) => {
+      const value = stored.get(this.toKeyId(item))?.[createdAt];
+      return value === undefined || data[index]?.[createdAt] !== undefined ? item : { ...item, [createdAt]: value };
+    });
+  }
+
+  /**
+   * Delete many items by key, in chunks of 25 written concurrently
+   */
+  public async batchDelete(keys: Key[], options?: BatchOptions & RequestOptions) {
+    const tableName = this.table(options);
+    const contexts: OperationContext[] = [];
+    for (const key of keys) {
+      contexts.push(await this.before({ operation: "batchDelete", tableName, key }));
+    }
+    const unique = new Map(contexts.map(({ key }) => [this.toKeyId(key!), this.toKey(key!)]));
+    await this.batchWrite(
+      [...unique.values()].map((key) => ({ DeleteRequest: { Key: key } })),
+      options,
+    );
+    for (const context of contexts) {
+      await this.after(context, undefined);
+    }
+
+    return {
+      keys: [...unique.values()],
+      count: unique.size,
+    };
+  }
+
+  private async batchWrite(requests: WriteRequest[], options?: BatchOptions & RequestOptions) {
+    const maxAttempts = options?.maxAttempts ?? 10;
+    const tableName = this.table(options);
+
+    await mapConcurrently(chunk(requests, 25), options?.concurrency ?? 4, async (batch) => {
+      let unprocessed = batch;
+      for (let attempt = 0; unprocessed.length; attempt++) {
+        if (attempt === maxAttempts) {
+          throw new RetriesExhaustedError(
+            `Items still unprocessed in ${this.tableName} after ${maxAttempts} attempts`,
+            unprocessed,
+          );
+        }
+        if (attempt > 0) {
+          await backoff(attempt);
+        }
+
+        const { UnprocessedItems } = await this.send(
+          (input, http) => this.dynamodb.batchWrite(input, http),
+          { RequestItems: { [tableName]: unprocessed } },
+          options,
+        );
+        unprocessed = UnprocessedItems?.[tableName] ?? [];
+      }
+    });
+  }
+
+  public async get<K extends Field<T, S> = never>(
+    key: ItemKey<z.output<T>, PK, TP>,
+    params?: SelectParams<K> & ReadOptions,
+  ): Promise<Projected<T, S, K>> {
+    const context = await this.before({ operation: "get", tableName: this.table(params), key });
+    const item = await this.read(await this.getItem(context.key!, params), params);
+    return this.after(context, item as Projected<T, S, K>);
+  }
+
+  /**
+   * Get an item as it's stored in the table, without validating it or leaving anything out
+   */
+  public async getRaw(key: ItemKey<z.output<T>, PK, TP>, params?: SelectParams<string> & ReadOptions) {
+    const context = await this.before({ operation: "get", tableName: this.table(params), key });
+    return this.after(context, await this.getItem(context.key!, params));
+  }
+
+  private async getItem(key: Record<string, any>, params?: SelectParams<string> & ReadOptions) {
+    const attributes = new ExpressionAttributes();
+    const { Item } = await this.send(
+      (input, http) => this.dynamodb.get(input, http),
       {
-        TableName: this.tableName,
+        TableName: this.table(params),
+        Key: this.toKey(key),
+        ConsistentRead: params?.consistentRead,
+        ProjectionExpression: this.toProjection(params?.select, attributes),
+        ...attributes.toInput(),
       },
+      params,
     );
 
-    for await (const page of paginator) {
+    if (!Item) {
+      throw this.notFound(key);
+    }
+
+    return Item;
+  }
+
+  /**
+   * Get many items by key, in chunks of 100, returning them in the same order as the keys
+   * with undefined in place of any items that don't exist
+   */
+  public async batchGet(keys: Key[], options: BatchGetOptions & { throwIfNotFound: true }): Promise<DomainItem<T, S>[]>;
+  public async batchGet(keys: Key[], options?: BatchGetOptions): Promise<(DomainItem<T, S> | undefined)[]>;
+  public async batchGet(keys: Key[], options?: BatchGetOptions) {
+    const tableName = this.table(options);
+    const contexts: OperationContext[] = [];
+    for (const key of keys) {
+      contexts.push(await this.before({ operation: "batchGet", tableName, key }));
+    }
+    const unique = new Map(contexts.map(({ key }) => [this.toKeyId(key!), this.toKey(key!)]));
+    const found = new Map<string, DomainItem<T, S>>();
+    for (const [id, item] of await this.batchGetStored([...unique.values()], options)) {
+      found.set(id, await this.read(item, options));
+    }
+
+    const items: (DomainItem<T, S> | undefined)[] = [];
+    for (const context of contexts) {
+      const item = found.get(this.toKeyId(context.key!));
+      if (!item && options?.throwIfNotFound) {
+        throw this.notFound(context.key!);
+      }
+      items.push(await this.after(context, item));
+    }
+    return items;
+  }
+
+  /**
+   * Get items as they're stored, in chunks of 100 with the unprocessed keys retried, by the ids of their keys
+   */
+  private async batchGetStored(keys: Key[], options?: BatchOptions & ReadOptions & SelectParams<string>) {
+    const maxAttempts = options?.maxAttempts ?? 10;
+    const tableName = this.table(options);
+    const attributes = new ExpressionAttributes();
+    const projection = this.toProjection(options?.select, attributes);
+    const found = new Map<string, Record<string, any>>();
+
+    for (const batch of chunk(keys, 100)) {
+      let unprocessed: Record<string, any>[] = batch;
+      for (let attempt = 0; unprocessed.length; attempt++) {
+        if (attempt === maxAttempts) {
+          throw new RetriesExhaustedError(
+            `Keys still unprocessed in ${this.tableName} after ${maxAttempts} attempts`,
+            unprocessed,
+          );
+        }
+        if (attempt > 0) {
+          await backoff(attempt);
+        }
+
+        const { Responses, UnprocessedKeys } = await this.send(
+          (input, http) => this.dynamodb.batchGet(input, http),
+          {
+            RequestItems: {
+              [tableName]: {
+                Keys: unprocessed,
+                ConsistentRead: options?.consistentRead,
+                ProjectionExpression: projection,
+                ...attributes.toInput(),
+              },
+            },
+          },
+          options,
+        );
+        for (const item of Responses?.[tableName] ?? []) {
+          found.set(this.toKeyId(item), item);
+        }
+        unprocessed = UnprocessedKeys?.[tableName]?.Keys ?? [];
+      }
+    }
+
+    return found;
+  }
+
+  public scan<K extends Field<T, S> = never>(params?: ScanParams & LimitParams & SelectParams<K> & ReadOptions) {
+    const input = this.toScanInput(params);
+
+    return this.items<Projected<T, S, K>>(
+      { operation: "scan", tableName: this.table(params) },
+      () =>
+        paginateScan(
+          {
+            client: this.dynamodb,
+            pageSize: params?.limit,
+          },
+          input,
+        ),
+      params,
+    );
+  }
+
+  /**
+   * Scan the table in segments, several at once, yielding the items of every segment as they arrive
+   *
+   * `progress` has the LastEvaluatedKey of each segment up to the items yielded so far, undefined before its first
+   * page or null once it's done, which can be saved to resume the segments that didn't finish
+   */
+  public parallelScan<K extends Field<T, S> = never>(
+    params: ScanParams & ParallelScanParams & SelectParams<K> & ReadOptions,
+  ) {
+    const input = this.toScanInput(params);
+    const segments = params.only ?? Array.from({ length: params.segments }, (_, segment) => segment);
+    const pages = mergeConcurrently(
+      segments.map(
+        (segment) => () =>
+          paginateScan(
+            {
+              client: this.dynamodb,
+              startingToken: params.resume?.[segment],
+            },
+            { ...input, Segment: segment, TotalSegments: params.segments },
+          ),
+      ),
+      params.concurrency ?? 4,
+    );
+
+    const invalid: InvalidItem[] = [];
+    const progress: Record<number, Key | null | undefined> = Object.fromEntries(
+      segments.map((segment) => [segment, params.resume?.[segment]]),
+    );
+    const items = this.segmentItems<Projected<T, S, K>>(
+      { operation: "scan", tableName: this.table(params) },
+      pages,
+      segments,
+      progress,
+      invalid,
+      params,
+    );
+
+    return Object.assign(items, { invalid, progress });
+  }
+
+  private async *segmentItems<R>(
+    context: OperationContext,
+    pages: AsyncIterable<[number, Page]>,
+    segments: number[],
+    progress: Record<number, Key | null | undefined>,
+    invalid: InvalidItem[],
+    params: SelectParams<string> & RequestOptions,
+  ) {
+    context = await this.before(context);
+    for await (const [index, page] of pages) {
+      params.signal?.throwIfAborted();
+      this.reportCapacity(page, params);
       for (const item of page.Items ?? []) {
-        yield this.parse(item);
+        params.signal?.throwIfAborted();
+        const parsed = await this.tryRead(item, invalid, params);
+        if (parsed !== undefined) {
+          yield (await this.after(context, parsed)) as R;
+        }
       }
+      progress[segments[index]] = (page.LastEvaluatedKey as Key | undefined) ?? null;
     }
   }
 
-  public async *query(keys: Record<string, Expression>, params?: QueryParams) {
-    const { expression, values } = toKeyConditionExpression(keys);
+  /**
+   * Scan a single page of up to `limit` items, returning a cursor to fetch the next page
+   */
+  public async scanPage<K extends Field<T, S> = never>(
+    params: ScanParams & PageParams & SelectParams<K> & ReadOptions,
+  ) {
+    const input = this.toScanInput(params);
+    return this.page<Projected<T, S, K>, ScanCommandInput>(
+      { operation: "scan", tableName: this.table(params) },
+      () => input,
+      params,
+      (input, http) => this.dynamodb.scan(input, http),
+    );
+  }
+
+  public query<K extends Field<T, S> = never, N extends keyof IX & string = never>(
+    keys: QueryKeys<z.output<T>, IndexKey<PK, IX, N>, TP>,
+    params?: QueryParams<N> & LimitParams & SelectParams<K> & ReadOptions,
+  ) {
+    const input = this.toQueryInput(keys, params);
 
+    return this.items<Projected<T, S, K>>(
+      { operation: "query", tableName: this.table(params), key: keys },
+      (context) =>
+        paginateQuery(
+          {
+            client: this.dynamodb,
+            pageSize: params?.limit,
+          },
+          context.key === keys ? input : this.toQueryInput(context.key!, params),
+        ),
+      params,
+    );
+  }
+
+  /**
+   * The first item matched by a query, throwing a NotFoundError when there isn't one
+   */
+  public async first<K extends Field<T, S> = never, N extends keyof IX & string = never>(
+    keys: QueryKeys<z.output<T>, IndexKey<PK, IX, N>, TP>,
+    params?: QueryParams<N> & SelectParams<K> & ReadOptions,
+  ) {
+    for await (const item of this.query(keys, params)) {
+      return item;
+    }
+    throw this.notFound(keys);
+  }
+
+  /**
+   * Count the items matched by a query without fetching them
+   */
+  public async count<N extends keyof IX & string = never>(
+    keys: QueryKeys<z.output<T>, IndexKey<PK, IX, N>, TP>,
+    params?: QueryParams<N> & ReadOptions,
+  ) {
+    const input = this.toQueryInput(keys, params);
+    const context = await this.before({ operation: "count", tableName: this.table(params), key: keys });
     const paginator = paginateQuery(
       {
         client: this.dynamodb,
       },
       {
-        TableName: this.tableName,
-        KeyConditionExpression: expression,
-        ExpressionAttributeValues: values,
-        IndexName: params?.index,
+        ...(context.key === keys ? input : this.toQueryInput(context.key!, params)),
+        Select: "COUNT",
       },
     );
 
-    for await (const page of paginator) {
+    let count = 0;
+    for await (const page of this.paginate(paginator, params)) {
+      count += page.Count ?? 0;
+    }
+    await this.after(context, undefined);
+    return count;
+  }
+
+  /**
+   * Query a single page of up to `limit` items, returning a cursor to fetch the next page
+   */
+  public async queryPage<K extends Field<T, S> = never, N extends keyof IX & string = never>(
+    keys: QueryKeys<z.output<T>, IndexKey<PK, IX, N>, TP>,
+    params: QueryParams<N> & PageParams & SelectParams<K> & ReadOptions,
+  ) {
+    const input = this.toQueryInput(keys, params);
+    return this.page<Projected<T, S, K>, QueryCommandInput>(
+      { operation: "query", tableName: this.table(params), key: keys },
+      (context) => (context.key === keys ? input : this.toQueryInput(context.key!, params)),
+      params,
+      (input, http) => this.dynamodb.query(input, http),
+    );
+  }
+
+  private toScanInput(params?: ScanParams & SelectParams<string> & ReadOptions): ScanCommandInput {
+    const attributes = new ExpressionAttributes();
+    const filter = toFilterConditionExpression(params?.filter, attributes);
+
+    return {
+      TableName: this.table(params),
+      FilterExpression: filter.expression,
+      ProjectionExpression: this.toProjection(params?.select, attributes),
+      ...attributes.toInput(),
+      ConsistentRead: params?.consistentRead,
+      ReturnConsumedCapacity: params?.returnConsumedCapacity,
+    };
+  }
+
+  private toQueryInput(
+    keys: Partial<Record<string, Expression>>,
+    params?: QueryParams & SelectParams<string> & ReadOptions,
+  ): QueryCommandInput {
+    if (params?.consistentRead && params.index && !this.toIndexKeys(params.index)?.local) {
+      throw new Error(`Consistent reads aren't supported on global secondary index ${params.index}`);
+    }
+
+    const conditions = this.toKeyConditions(keys as Record<string, Expression>, params?.index);
+    this.assertKeyConditions(conditions, params?.index);
+
+    const attributes = new ExpressionAttributes();
+    const { expression } = toKeyConditionExpression(conditions, attributes);
+    const filter = toFilterConditionExpression(params?.filter, attributes);
+
+    return {
+      TableName: this.table(params),
+      KeyConditionExpression: expression,
+      FilterExpression: filter.expression,
+      ProjectionExpression: this.toProjection(params?.select, attributes),
+      ...attributes.toInput(),
+      IndexName: params?.index,
+      ScanIndexForward: params?.order ? params.order === "asc" : undefined,
+      ConsistentRead: params?.consistentRead,
+      ReturnConsumedCapacity: params?.returnConsumedCapacity,
+    };
+  }
+
+  private toProjection(select: string[] | undefined, attributes: ExpressionAttributes) {
+    return select?.length ? select.map((name) => attributes.name(name)).join(", ") : undefined;
+  }
+
+  /**
+   * Iterate over the items in every page, with the items that failed to read in `invalid` once it's done
+   */
+  private items<R>(
+    context: OperationContext,
+    paginator: (context: OperationContext) => AsyncIterable<Page>,
+    params?: LimitParams & SelectParams<string> & RequestOptions,
+  ) {
+    const invalid: InvalidItem[] = [];
+    return Object.assign(this.limit(this.pages<R>(context, paginator, invalid, params), params?.limit), { invalid });
+  }
+
+  private async *pages<R>(
+    context: OperationContext,
+    paginator: (context: OperationContext) => AsyncIterable<Page>,
+    invalid: InvalidItem[],
+    params?: SelectParams<string> & RequestOptions,
+  ) {
+    context = await this.before(context);
+    for await (const page of this.paginate(paginator(context), params)) {
       for (const item of page.Items ?? []) {
-        yield this.parse(item);
+        params?.signal?.throwIfAborted();
+        const parsed = await this.tryRead(item, invalid, params);
+        if (parsed !== undefined) {
+          yield (await this.after(context, parsed)) as R;
+        }
       }
     }
   }
+
+  /**
+   * Go through a paginator's pages, stopping when the request is aborted and reporting the capacity of each page
+   */
+  private async *paginate<P extends Page>(paginator: AsyncIterable<P>, options?: RequestOptions) {
+    options?.signal?.throwIfAborted();
+    for await (const page of paginator) {
+      options?.signal?.throwIfAborted();
+      this.reportCapacity(page, options);
+      yield page;
+    }
+  }
+
+  private async *limit<I>(items: AsyncIterable<I>, limit?: number) {
+    if (limit === 0) {
+      return;
+    }
+
+    let count = 0;
+    for await (const item of items) {
+      yield item;
+      if (++count === limit) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Keep requesting until the page is full, as a filter can leave DynamoDB's pages short of the Limit
+   */
+  private async page<R, I extends QueryCommandInput | ScanCommandInput>(
+    context: OperationContext,
+    toInput: (context: OperationContext) => I,
+    params: PageParams & SelectParams<string> & RequestOptions & { index?: string },
+    request: (input: I, http: { abortSignal?: AbortSignal }) => Promise<Page>,
+  ) {
+    const secret = this.options.cursorSecret;
+    if (!secret) {
+      throw new Error(
+        `${this.tableName} needs the cursorSecret option to sign the cursors of queryPage() and scanPage()`,
+      );
+    }
+
+    context = await this.before(context);
+    const input = toInput(context);
+    const cursorOptions = { index: params.index, secret };
+    const items: R[] = [];
+    const invalid: InvalidItem[] = [];
+    let lastEvaluatedKey = params.cursor
+      ? decodeCursor(params.cursor, { ...cursorOptions, keyAttributes: this.toCursorKeyAttributes(params.index) })
+      : undefined;
+
+    do {
+      const { Items, LastEvaluatedKey } = await this.send(
+        request,
+        { ...input, Limit: params.limit - items.length, ExclusiveStartKey: lastEvaluatedKey },
+        params,
+      );
+      for (const item of Items ?? []) {
+        const parsed = await this.tryRead(item, invalid, params);
+        if (parsed !== undefined) {
+          items.push((await this.after(context, parsed)) as R);
+        }
+      }
+      lastEvaluatedKey = LastEvaluatedKey;
+    } while (lastEvaluatedKey && items.length < params.limit);
+
+    return {
+      items,
+      cursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey, cursorOptions) : undefined,
+      invalid,
+    };
+  }
 }
@@ -0,0 +1,88 @@
+/**
+ * Wait before retrying, using exponential backoff with "full jitter" so that
+ * concurrent callers don't all retry at the same moment
+ */
+export function backoff(attempt: number, baseMs = 50, maxMs = 5000) {
+  const delay = Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
+  return new Promise((resolve) => setTimeout(resolve, delay));
+}
+
+export function chunk<I>(items: I[], size: number) {
+  const chunks: I[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Map over the items with at most `concurrency` calls in flight at once
+ */
+export async function mapConcurrently<I, R>(items: I[], concurrency: number, fn: (item: I) => Promise<R>) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Merge many async iterables into one, reading from at most `concurrency` of them at once and starting the
+ * next as each one finishes. Values are yielded with the index of the iterable they came from
+ */
+export async function* mergeConcurrently<I>(
+  sources: (() => AsyncIterable<I>)[],
+  concurrency: number,
+): AsyncGenerator<[number, I]> {
+  type Next = { index: number; result: IteratorResult<I> };
+  const iterators = new Map<number, AsyncIterator<I>>();
+  const pending = new Map<number, Promise<Next>>();
+  let started = 0;
+
+  const pull = (index: number) => {
+    const next = iterators
+      .get(index)!
+      .next()
+      .then((result) => ({ index, result }));
+    // left behind when the consumer stops early, so don't let a failure go unhandled
+    next.catch(() => undefined);
+    pending.set(index, next);
+  };
+  const start = () => {
+    const index = started++;
+    iterators.set(index, sources[index]()[Symbol.asyncIterator]());
+    pull(index);
+  };
+
+  while (started < sources.length && started < Math.max(1, concurrency)) {
+    start();
+  }
+
+  try {
+    while (pending.size) {
+      const { index, result } = await Promise.race(pending.values());
+      if (result.done) {
+        pending.delete(index);
+        iterators.delete(index);
+        if (started < sources.length) {
+          start();
+        }
+        continue;
+      }
+
+      pull(index);
+      yield [index, result.value];
+    }
+  } finally {
+    for (const iterator of iterators.values()) {
+      iterator.return?.().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { toPathSegments } from "./expressions";
+import { z } from "zod";
+
+/**
+ * Find the object schema underneath any .transform() / .refine() wrappers so
+ * that individual fields can be validated on their own
+ */
+export function toObjectSchema(schema: z.ZodTypeAny): z.AnyZodObject | undefined {
+  if (schema instanceof z.ZodObject) {
+    return schema;
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toObjectSchema(schema.innerType());
+  }
+  return undefined;
+}
+
+/**
+ * Find the schema for a field, following document paths into nested objects, lists and records
+ *
+ * "addresses[0].city" => schema.shape.addresses.element.shape.city
+ */
+export function toFieldSchema(schema: z.ZodTypeAny, path: string): z.ZodTypeAny | undefined {
+  let field: z.ZodTypeAny | undefined = schema;
+  for (const segment of toPathSegments(path)) {
+    const container: z.ZodTypeAny | undefined = field && unwrap(field);
+    if (typeof segment === "number") {
+      field = container instanceof z.ZodArray ? container.element : undefined;
+    } else if (container instanceof z.ZodObject) {
+      field = container.shape[segment];
+    } else if (container instanceof z.ZodRecord) {
+      field = container.valueSchema;
+    } else {
+      field = undefined;
+    }
+  }
+  return field;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrap(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return unwrap(schema.removeDefault());
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrap(schema.innerType());
+  }
+  return schema;
+}
+
+/**
+ * Validate a subset of fields (or document paths) against the schema, rejecting any field the schema doesn't know about
+ */
+export function parseFields(schema: z.ZodTypeAny, fields: Record<string, unknown>): Record<string, unknown> {
+  assertFields(schema, Object.keys(fields));
+
+  const shape = Object.fromEntries(Object.keys(fields).map((path) => [path, toFieldSchema(schema, path)!]));
+
+  return z.object(shape).parse(fields);
+}
+
+/**
+ * Validate the fields of a projected item one by one, as a .transform() can't run on part of an item. Fields that
+ * only the transform adds, like keys, are passed through as they are
+ */
+export function parseProjection(
+  schema: z.ZodTypeAny,
+  item: Record<string, unknown>,
+  fields: string[],
+): Record<string, unknown> {
+  const shape = Object.fromEntries(
+    fields.flatMap((field) => {
+      const fieldSchema = toFieldSchema(schema, field);
+      return fieldSchema ? [[field, fieldSchema]] : [];
+    }),
+  );
+  const passthrough = fields.filter((field) => !(field in shape) && item[field] !== undefined);
+
+  return {
+    ...Object.fromEntries(passthrough.map((field) => [field, item[field]])),
+    ...z.object(shape).parse(item),
+  };
+}
+
+/**
+ * Reject any field the object schema doesn't know about, without validating values
+ */
+export function assertFields(schema: z.ZodTypeAny, fields: string[]) {
+  const unknown = fields.filter((field) => !toObjectSchema(schema) || !toFieldSchema(schema, field));
+  if (unknown.length) {
+    throw new z.ZodError([
+      {
+        code: z.ZodIssueCode.unrecognized_keys,
+        keys: unknown,
+        path: [],
+        message: `Unrecognized key(s) in object: ${unknown.map((field) => `'${field}'`).join(", ")}`,
+      },
+    ]);
+  }
+}
+
+/**
+ * Whether a field is allowed to be absent from an item, list elements can always be removed
+ */
+export function isOptionalField(schema: z.ZodTypeAny, field: string) {
+  if (typeof toPathSegments(field).pop() === "number") {
+    return !!toFieldSchema(schema, field);
+  }
+  return !!toFieldSchema(schema, field)?.safeParse(undefined).success;
+}
@@ -0,0 +1,167 @@
+import { AttributeValue } from "@aws-sdk/client-dynamodb";
+import { DomainItem, Key, Repository } from "./repository";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { z } from "zod";
+
+/**
+ * A DynamoDB Streams record, as a Lambda function or GetRecords receives it
+ */
+export type StreamRecord = {
+  eventID?: string;
+  eventName?: "INSERT" | "MODIFY" | "REMOVE" | string;
+  dynamodb?: {
+    Keys?: Record<string, any>;
+    NewImage?: Record<string, any>;
+    OldImage?: Record<string, any>;
+    SequenceNumber?: string;
+  };
+};
+
+/**
+ * A change to an item, with the images parsed through the schema of the repository it was routed to
+ */
+export type StreamEvent<N extends string, I> = {
+  entity: N;
+  type: "insert" | "modify" | "remove";
+  key: Key;
+  /**
+   * The item before the change, undefined on insert or when the stream doesn't include old images
+   */
+  before: I | undefined;
+  /**
+   * The item after the change, undefined on remove or when the stream doesn't include new images
+   */
+  after: I | undefined;
+};
+
+/**
+ * A record that couldn't be decoded, e.g. to report it as a batch item failure
+ */
+export type StreamFailure = {
+  record: StreamRecord;
+  entity?: string;
+  error: Error;
+};
+
+/**
+ * Which records belong to a repository: attribute values the item must have, with a RegExp to match a key pattern,
+ * or a function of the item
+ */
+export type StreamMatch = Record<string, string | number | boolean | RegExp> | ((item: Record<string, any>) => boolean);
+
+type ChangedField<E> = E extends { before: infer I } ? keyof NonNullable<I> & string : never;
+
+type Route = {
+  entity: string;
+  repository: Repository<any, any, any, any, any>;
+  match: StreamMatch;
+};
+
+const types = { INSERT: "insert", MODIFY: "modify", REMOVE: "remove" } as const;
+
+/**
+ * Decodes stream records into typed change events, routing each record to the first repository it matches
+ *
+ * const decoder = streamDecoder()
+ *   .route("post", posts, { sk: "post" })
+ *   .route("comment", comments, { sk: /^comment#/ });
+ * const { events, failures } = decoder.decode(event.Records);
+ *
+ * Records that match no route are left out.
+ */
+export class StreamDecoder<E = never> {
+  private readonly routes: Route[] = [];
+
+  public route<const N extends string, T extends z.ZodTypeAny, S extends string>(
+    entity: N,
+    repository: Repository<T, S, any, any, any>,
+    match: StreamMatch,
+  ): StreamDecoder<E | StreamEvent<N, DomainItem<T, S>>> {
+    this.routes.push({ entity, repository, match });
+    return this;
+  }
+
+  /**
+   * Decode a batch of records, collecting the records that fail to decode instead of failing the whole batch
+   */
+  public decode(records: StreamRecord[]): { events: E[]; failures: StreamFailure[] } {
+    const events: E[] = [];
+    const failures: StreamFailure[] = [];
+
+    for (const record of records) {
+      let route: Route | undefined;
+      try {
+        const type = types[record.eventName as keyof typeof types];
+        if (!type) {
+          throw new Error(`Unknown stream event ${record.eventName}`);
+        }
+
+        const key = toItem(record.dynamodb?.Keys) as Key;
+        const before = toItem(record.dynamodb?.OldImage);
+        const after = toItem(record.dynamodb?.NewImage);
+        route = this.routes.find(({ match }) => matches(after ?? before ?? key, match));
+        if (route) {
+          events.push({
+            entity: route.entity,
+            type,
+            key,
+            before: before && route.repository.parse(before),
+            after: after && route.repository.parse(after),
+          } as E);
+        }
+      } catch (e) {
+        failures.push({ record, entity: route?.entity, error: e instanceof Error ? e : new Error(String(e)) });
+      }
+    }
+
+    return { events, failures };
+  }
+}
+
+export function streamDecoder() {
+  return new StreamDecoder();
+}
+
+/**
+ * The fields whose values differ between the item before and after a change
+ */
+export function changedFields<E extends Pick<StreamEvent<string, Record<string, any>>, "before" | "after">>(
+  event: E,
+): ChangedField<E>[] {
+  const fields = new Set([...Object.keys(event.before ?? {}), ...Object.keys(event.after ?? {})]);
+  return [...fields].filter((field) => !isEqual(event.before?.[field], event.after?.[field])) as ChangedField<E>[];
+}
+
+function toItem(image: Record<string, any> | undefined) {
+  return image && unmarshall(image as Record<string, AttributeValue>);
+}
+
+function matches(item: Record<string, any>, match: StreamMatch) {
+  if (typeof match === "function") {
+    return match(item);
+  }
+  return Object.entries(match).every(([name, expected]) =>
+    expected instanceof RegExp ? typeof item[name] === "string" && expected.test(item[name]) : item[name] === expected,
+  );
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Set && b instanceof Set) {
+    return a.size === b.size && [...a].every((member) => b.has(member));
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return Buffer.compare(a, b) === 0;
+  }
+  if (a instanceof Array && b instanceof Array) {
+    return a.length === b.length && a.every((member, i) => isEqual(member, b[i]));
+  }
+  if (isMap(a) && isMap(b)) {
+    const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...fields].every((field) => isEqual(a[field], b[field]));
+  }
+  return a === b;
+}
+
+function isMap(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === "[object Object]";
+}
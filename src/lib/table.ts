@@ -0,0 +1,130 @@
+import {
+  Condition,
+  Expression,
+  ExpressionAttributes,
+  toFilterConditionExpression,
+  toKeyConditionExpression,
+} from "./expressions";
+import { DynamoDBDocument, paginateQuery } from "@aws-sdk/lib-dynamodb";
+import { Repository, RepositoryOptions } from "./repository";
+import { z } from "zod";
+
+/**
+ * Attribute values that identify an entity's items, either an entity-type attribute or a sort key prefix
+ *
+ * { type: "post" } or { sk: ["begins_with", "comment#"] }
+ */
+export type Discriminator = Record<string, string | number | boolean | ["begins_with", string]>;
+
+export type EntityDefinition<S extends z.ZodTypeAny> = {
+  schema: S;
+  match: Discriminator;
+};
+
+type Entities = Record<string, z.ZodTypeAny>;
+
+/**
+ * An item from the table tagged with the entity it was parsed as, narrowed by checking `entity`
+ */
+export type EntityItem<E extends Entities> = { [K in keyof E]: { entity: K; item: z.output<E[K]> } }[keyof E];
+
+export type EntityGroups<E extends Entities> = { [K in keyof E]: z.output<E[K]>[] };
+
+type TableQueryParams = {
+  index?: string;
+  filter?: Condition;
+};
+
+/**
+ * Several entities sharing one table, so that a single query can return a mix of them
+ *
+ * const table = new Table(document, "blog", {
+ *   post: { schema: PostSchema, match: { sk: "post" } },
+ *   comment: { schema: CommentSchema, match: { sk: ["begins_with", "comment#"] } },
+ * });
+ * const { post, comment } = await table.group(table.query({ pk: postId }));
+ */
+export class Table<E extends Entities> {
+  /**
+   * A repository for each entity, to read and write them one at a time
+   */
+  public readonly repositories: { [K in keyof E]: Repository<E[K]> };
+
+  constructor(
+    public dynamodb: DynamoDBDocument,
+    public readonly tableName: string,
+    private readonly entities: { [K in keyof E]: EntityDefinition<E[K]> },
+    options?: RepositoryOptions<never>,
+  ) {
+    this.repositories = Object.fromEntries(
+      Object.entries(entities).map(([name, { schema }]) => [
+        name,
+        new Repository(dynamodb, tableName, schema, options),
+      ]),
+    ) as { [K in keyof E]: Repository<E[K]> };
+  }
+
+  /**
+   * Query items of any entity, skipping items that don't match any of them
+   */
+  public async *query(keys: Record<string, Expression>, params?: TableQueryParams): AsyncGenerator<EntityItem<E>> {
+    const attributes = new ExpressionAttributes();
+    const { expression } = toKeyConditionExpression(keys, attributes);
+    const filter = toFilterConditionExpression(params?.filter, attributes);
+
+    const paginator = paginateQuery(
+      {
+        client: this.dynamodb,
+      },
+      {
+        TableName: this.tableName,
+        KeyConditionExpression: expression,
+        FilterExpression: filter.expression,
+        ...attributes.toInput(),
+        IndexName: params?.index,
+      },
+    );
+
+    for await (const page of paginator) {
+      for (const item of page.Items ?? []) {
+        const parsed = this.parse(item);
+        if (parsed) {
+          yield parsed;
+        }
+      }
+    }
+  }
+
+  /**
+   * Parse an item with the schema of the first entity it matches, or undefined if it matches none
+   */
+  public parse(item: Record<string, any>): EntityItem<E> | undefined {
+    const entity = Object.keys(this.entities).find((name) => matches(item, this.entities[name].match));
+    if (!entity) {
+      return undefined;
+    }
+    return { entity, item: this.repositories[entity].parse(item) } as EntityItem<E>;
+  }
+
+  /**
+   * Collect items into a list per entity, with an empty list for entities without any items
+   */
+  public async group(items: AsyncIterable<EntityItem<E>> | Iterable<EntityItem<E>>): Promise<EntityGroups<E>> {
+    const groups = Object.fromEntries(Object.keys(this.entities).map((name) => [name, []])) as Record<
+      string,
+      unknown[]
+    >;
+    for await (const { entity, item } of items) {
+      groups[entity as string].push(item);
+    }
+    return groups as EntityGroups<E>;
+  }
+}
+
+function matches(item: Record<string, any>, discriminator: Discriminator) {
+  return Object.entries(discriminator).every(([name, expected]) =>
+    expected instanceof Array
+      ? typeof item[name] === "string" && item[name].startsWith(expected[1])
+      : item[name] === expected,
+  );
+}
@@ -0,0 +1,215 @@
+import { CancellationReason, TransactionCancelledError } from "./errors";
+import { DynamoDBDocument, TransactWriteCommandInput } from "@aws-sdk/lib-dynamodb";
+import { DomainItem, Key, Repository, WriteOptions } from "./repository";
+import { Condition, UpdateChanges } from "./expressions";
+import { OperationContext } from "./hooks";
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import { z } from "zod";
+
+type TransactWriteItem = NonNullable<TransactWriteCommandInput["TransactItems"]>[number];
+
+type Operation = {
+  operation: string;
+  repository: Repository<any, any, any, any, any>;
+  key: Key;
+  item: TransactWriteItem;
+  context: OperationContext;
+  build: (context: OperationContext) => [Key, TransactWriteItem];
+};
+
+/**
+ * Collects writes across any number of repositories and commits them atomically with TransactWriteItems
+ *
+ * await transaction()
+ *   .put(posts, { userId, content, likes: 0 })
+ *   .update(users, { pk: userId, sk: "user" }, { add: { posts: 1 } })
+ *   .commit();
+ *
+ * Each operation is validated when it's added, and runs its repository's hooks when the transaction is committed.
+ */
+export class Transaction {
+  private readonly operations: Operation[] = [];
+
+  constructor(private readonly dynamodb?: DynamoDBDocument) {}
+
+  public put<T extends z.ZodTypeAny, S extends string>(
+    repository: Repository<T, S, any, any, any>,
+    data: z.input<T>,
+    options?: WriteOptions,
+  ) {
+    return this.add(repository, { operation: "put", tableName: repository.tableName, item: data }, ({ item }) => {
+      const request = repository.toPutRequest(item, options);
+      return [repository.toKey(request.Item), { Put: request }];
+    });
+  }
+
+  public create<T extends z.ZodTypeAny, S extends string>(
+    repository: Repository<T, S, any, any, any>,
+    data: z.input<T>,
+  ) {
+    return this.add(repository, { operation: "create", tableName: repository.tableName, item: data }, ({ item }) => {
+      const request = repository.toPutRequest(item, undefined, "create");
+      return [repository.toKey(request.Item), { Put: request }];
+    });
+  }
+
+  public replace<T extends z.ZodTypeAny, S extends string>(
+    repository: Repository<T, S, any, any, any>,
+    data: z.input<T>,
+    options?: WriteOptions,
+  ) {
+    return this.add(repository, { operation: "replace", tableName: repository.tableName, item: data }, ({ item }) => {
+      const request = repository.toPutRequest(item, options, "replace");
+      return [repository.toKey(request.Item), { Put: request }];
+    });
+  }
+
+  public update<T extends z.ZodTypeAny, S extends string>(
+    repository: Repository<T, S, any, any, any>,
+    key: Key,
+    changes: UpdateChanges<z.output<T>>,
+    options?: WriteOptions,
+  ) {
+    return this.add(repository, { operation: "update", tableName: repository.tableName, key, changes }, (context) => {
+      const request = repository.toUpdateRequest(context.key!, context.changes!, options);
+      return [request.Key, { Update: request }];
+    });
+  }
+
+  public delete<T extends z.ZodTypeAny, S extends string>(
+    repository: Repository<T, S, any, any, any>,
+    key: Key,
+    options?: WriteOptions,
+  ) {
+    return this.add(repository, { operation: "delete", tableName: repository.tableName, key }, (context) => {
+      const request = repository.toDeleteRequest(context.key!, options);
+      return [request.Key, { Delete: request }];
+    });
+  }
+
+  public conditionCheck<T extends z.ZodTypeAny, S extends string>(
+    repository: Repository<T, S, any, any, any>,
+    key: Key,
+    condition: Condition,
+  ) {
+    return this.add(repository, { operation: "conditionCheck", tableName: repository.tableName, key }, (context) => {
+      const request = repository.toConditionCheckRequest(context.key!, condition);
+      return [request.Key, { ConditionCheck: request }];
+    });
+  }
+
+  public async commit() {
+    if (!this.operations.length) {
+      return;
+    }
+    if (this.operations.length > 100) {
+      throw new Error(`Transactions are limited to 100 operations, got ${this.operations.length}`);
+    }
+
+    const contexts: OperationContext[] = [];
+    for (const operation of this.operations) {
+      const context = await operation.repository.before(operation.context);
+      if (context !== operation.context) {
+        [operation.key, operation.item] = operation.build(context);
+      }
+      contexts.push(context);
+    }
+
+    const dynamodb = this.dynamodb ?? this.operations[0].repository.dynamodb;
+    try {
+      await dynamodb.transactWrite({
+        TransactItems: this.operations.map(({ item }) => item),
+      });
+    } catch (e) {
+      if (e instanceof TransactionCanceledException) {
+        const reasons = this.toReasons(e);
+        throw new TransactionCancelledError(
+          `Transaction cancelled: ${reasons.map((reason) => this.describe(reason)).join("; ")}`,
+          reasons,
+          { cause: e },
+        );
+      }
+      throw e;
+    }
+
+    for (const [index, context] of contexts.entries()) {
+      await this.operations[index].repository.after(context, undefined);
+    }
+  }
+
+  /**
+   * Add an operation, building its request right away to validate it and again at commit if a hook changes it
+   */
+  private add(
+    repository: Repository<any, any, any, any, any>,
+    context: OperationContext,
+    build: (context: OperationContext) => [Key, TransactWriteItem],
+  ) {
+    const [key, item] = build(context);
+    this.operations.push({ operation: context.operation, repository, key, item, context, build });
+    return this;
+  }
+
+  /**
+   * Match the cancellation reasons, which are in the same order as the operations, back to the operations
+   */
+  private toReasons(e: TransactionCanceledException): CancellationReason[] {
+    return (e.CancellationReasons ?? [])
+      .map((reason, index) => ({
+        index,
+        operation: this.operations[index].operation,
+        repository: this.operations[index].repository,
+        tableName: this.operations[index].repository.tableName,
+        key: this.operations[index].key,
+        code: reason.Code,
+        message: reason.Message,
+      }))
+      .filter(({ code }) => code && code !== "None");
+  }
+
+  private describe(reason: CancellationReason) {
+    return `${reason.operation} #${reason.index} in ${reason.repository.constructor.name} (${
+      reason.tableName
+    }) for keys ${JSON.stringify(reason.key)} failed with ${reason.code}`;
+  }
+}
+
+export function transaction(dynamodb?: DynamoDBDocument) {
+  return new Transaction(dynamodb);
+}
+
+type TransactGetResults<R extends [Repository<any, any, any, any, any>, Key][]> = {
+  [I in keyof R]: R[I] extends [Repository<infer T, infer S, any, any, any>, Key]
+    ? DomainItem<T, S> | undefined
+    : never;
+};
+
+/**
+ * Read items across any number of repositories as a single consistent snapshot with TransactGetItems,
+ * returning each item parsed through its own repository's schema
+ */
+export async function transactGet<R extends [Repository<any, any, any, any, any>, Key][]>(
+  gets: [...R],
+  dynamodb?: DynamoDBDocument,
+): Promise<TransactGetResults<R>> {
+  if (!gets.length) {
+    return [] as TransactGetResults<R>;
+  }
+  if (gets.length > 100) {
+    throw new Error(`Transactions are limited to 100 operations, got ${gets.length}`);
+  }
+
+  const { Responses } = await (dynamodb ?? gets[0][0].dynamodb).transactGet({
+    TransactItems: gets.map(([repository, key]) => ({
+      Get: {
+        TableName: repository.tableName,
+        Key: repository.toKey(key),
+      },
+    })),
+  });
+
+  return gets.map(([repository], i) => {
+    const item = Responses?.[i]?.Item;
+    return item ? repository.parse(item) : undefined;
+  }) as TransactGetResults<R>;
+}